@@ -2,6 +2,7 @@ import * as pulumi from "@pulumi/pulumi";
 import * as aws from "@pulumi/aws";
 
 export interface AcmOutputs {
+  // Validated certificate ARN when a hosted zone was given, otherwise the raw ARN
   certificateArn: pulumi.Output<string>;
   domainValidationOptions: pulumi.Output<aws.types.output.acm.CertificateDomainValidationOption[]>;
 }
@@ -9,24 +10,61 @@ export interface AcmOutputs {
 export interface AcmInputs {
   domainName: string;
   subjectAlternativeNames?: string[];
+  // Route53 zone for DNS validation records. Without it the validation records
+  // must be added by hand and the certificate ARN is returned unvalidated.
+  hostedZoneId?: pulumi.Input<string>;
   tags: { [key: string]: string };
 }
 
 export function createAcmCertificate(name: string, inputs: AcmInputs): AcmOutputs {
   // Request ACM certificate
-  // You'll need to manually add DNS validation records to Cloudflare
   const certificate = new aws.acm.Certificate(`${name}-cert`, {
     domainName: inputs.domainName,
     subjectAlternativeNames: inputs.subjectAlternativeNames,
     validationMethod: "DNS",
     tags: { ...inputs.tags, Name: `${name}-cert` },
-    lifecycle: {
-      createBeforeDestroy: true,
-    },
   });
 
-  return {
+  if (!inputs.hostedZoneId) {
+    return {
+      certificateArn: certificate.arn,
+      domainValidationOptions: certificate.domainValidationOptions,
+    };
+  }
+
+  // A wildcard shares its validation record with the base name, so create one
+  // record per distinct base name
+  const validatedNames = Array.from(
+    new Set([inputs.domainName, ...(inputs.subjectAlternativeNames ?? [])].map((d) => d.replace(/^\*\./, "")))
+  );
+
+  const validationRecords = validatedNames.map((domain, i) => {
+    const option = certificate.domainValidationOptions.apply((options) => {
+      const match = options.find((o) => o.domainName === domain || o.domainName === `*.${domain}`);
+      if (!match) {
+        throw new Error(`No ACM validation option for ${domain}`);
+      }
+      return match;
+    });
+
+    return new aws.route53.Record(`${name}-cert-validation-${i}`, {
+      zoneId: inputs.hostedZoneId!,
+      name: option.resourceRecordName,
+      type: option.resourceRecordType,
+      records: [option.resourceRecordValue],
+      ttl: 60,
+      allowOverwrite: true,
+    });
+  });
+
+  // Wait for ACM to issue the certificate
+  const validation = new aws.acm.CertificateValidation(`${name}-cert-validation`, {
     certificateArn: certificate.arn,
+    validationRecordFqdns: validationRecords.map((r) => r.fqdn),
+  });
+
+  return {
+    certificateArn: validation.certificateArn,
     domainValidationOptions: certificate.domainValidationOptions,
   };
 }
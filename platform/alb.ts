@@ -1,8 +1,12 @@
 import * as pulumi from "@pulumi/pulumi";
 import * as aws from "@pulumi/aws";
 
+import { EnvironmentProfile } from "./environment";
+import { albLogPrefix } from "./logarchive";
+
 export interface AlbOutputs {
   albArn: pulumi.Output<string>;
+  albArnSuffix: pulumi.Output<string>;
   albDnsName: pulumi.Output<string>;
   albZoneId: pulumi.Output<string>;
   httpListenerArn: pulumi.Output<string>;
@@ -14,6 +18,11 @@ export interface AlbInputs {
   vpcId: pulumi.Output<string>;
   publicSubnetIds: pulumi.Output<string>[];
   certificateArn?: pulumi.Output<string>;
+  // Extra certificates served on the HTTPS listener via SNI
+  additionalCertificateArns?: pulumi.Output<string>[];
+  profile: EnvironmentProfile;
+  // Log archive bucket for access logs (logarchive.ts)
+  accessLogsBucket?: pulumi.Output<string>;
   tags: { [key: string]: string };
 }
 
@@ -55,24 +64,41 @@ export function createAlb(name: string, inputs: AlbInputs): AlbOutputs {
     loadBalancerType: "application",
     securityGroups: [albSg.id],
     subnets: inputs.publicSubnetIds,
-    enableDeletionProtection: false, // Set to true for prod
+    enableDeletionProtection: inputs.profile.albDeletionProtection,
+    accessLogs: inputs.accessLogsBucket
+      ? {
+          bucket: inputs.accessLogsBucket,
+          prefix: albLogPrefix,
+          enabled: true,
+        }
+      : undefined,
     tags: { ...inputs.tags, Name: `${name}-alb` },
   });
 
-  // HTTP Listener - returns 404 by default (open for ALB health checks)
+  // HTTP Listener - redirects to HTTPS when there is a certificate, otherwise
+  // returns 404 by default
   const httpListener = new aws.lb.Listener(`${name}-http-listener`, {
     loadBalancerArn: alb.arn,
     port: 80,
     protocol: "HTTP",
     defaultActions: [
-      {
-        type: "fixed-response",
-        fixedResponse: {
-          contentType: "text/plain",
-          messageBody: "Not Found",
-          statusCode: "404",
-        },
-      },
+      inputs.certificateArn
+        ? {
+            type: "redirect",
+            redirect: {
+              protocol: "HTTPS",
+              port: "443",
+              statusCode: "HTTP_301",
+            },
+          }
+        : {
+            type: "fixed-response",
+            fixedResponse: {
+              contentType: "text/plain",
+              messageBody: "Not Found",
+              statusCode: "404",
+            },
+          },
     ],
     tags: inputs.tags,
   });
@@ -98,10 +124,18 @@ export function createAlb(name: string, inputs: AlbInputs): AlbOutputs {
       ],
       tags: inputs.tags,
     });
+
+    (inputs.additionalCertificateArns ?? []).forEach((arn, i) => {
+      new aws.lb.ListenerCertificate(`${name}-https-cert-${i}`, {
+        listenerArn: httpsListener!.arn,
+        certificateArn: arn,
+      });
+    });
   }
 
   return {
     albArn: alb.arn,
+    albArnSuffix: alb.arnSuffix,
     albDnsName: alb.dnsName,
     albZoneId: alb.zoneId,
     httpListenerArn: httpListener.arn,
@@ -0,0 +1,470 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as aws from "@pulumi/aws";
+
+import { createAppRepository } from "./ecr";
+import { createAlbDnsRecord } from "./dns";
+import { getPlatformOutputs } from "./contract";
+import { createAppRoles } from "./iam";
+import { tenantDbName } from "./dbtenants";
+import { legacyRulePriority } from "./routing";
+import { canonicalTags } from "./cost";
+
+// Reusable app component - app stacks create one of these instead of
+// copying the full template from docs/adding-apps.md
+
+export interface ScheduledScalingArgs {
+  scaleUpHour: number;
+  scaleDownHour: number;
+  timezone: string;
+}
+
+export interface PortfolioAppArgs {
+  appName: string;
+  subdomain: string;
+  platformStack: pulumi.StackReference;
+  cpu?: number;
+  memory?: number;
+  desiredCount?: number;
+  containerPort?: number;
+  healthCheckPath?: string;
+  useFargateSpot?: boolean;
+  // Run tasks in private subnets without public IPs (needs platform egressMode or VPC endpoints)
+  usePrivateSubnets?: boolean;
+  imageTag?: string;
+  // Plain environment variables passed to the container
+  environment?: { [key: string]: pulumi.Input<string> };
+  // Secrets Manager ARNs injected as environment variables
+  secrets?: { [key: string]: pulumi.Input<string> };
+  // Wire DB_* variables from the shared database when the platform has one
+  connectDatabase?: boolean;
+  scheduledScaling?: ScheduledScalingArgs;
+  // Extra IAM permissions for the application's task role
+  taskPolicyStatements?: aws.iam.PolicyStatement[];
+  // Register with the platform's Service Connect namespace so other apps can
+  // call this one at http://<appName>.<namespace>:<containerPort>
+  enableServiceConnect?: boolean;
+  // Use the repository the platform manages for this app (ecrRepositories
+  // config) instead of creating one in the app stack. Required when the
+  // platform lists the app - the deploy fails otherwise.
+  usePlatformRepository?: boolean;
+  // Use the platform's shared task roles instead of per-app roles (legacy)
+  useSharedRoles?: boolean;
+  tags?: { [key: string]: pulumi.Input<string> };
+}
+
+export class PortfolioApp extends pulumi.ComponentResource {
+  public readonly url: pulumi.Output<string>;
+  public readonly repositoryUrl: pulumi.Output<string>;
+  public readonly securityGroupId: pulumi.Output<string>;
+  public readonly targetGroupArn: pulumi.Output<string>;
+  public readonly serviceName: pulumi.Output<string>;
+  public readonly serviceArn: pulumi.Output<string>;
+
+  constructor(name: string, args: PortfolioAppArgs, opts?: pulumi.ComponentResourceOptions) {
+    super("portfolio:platform:PortfolioApp", name, {}, opts);
+
+    const appName = args.appName;
+    const cpu = args.cpu ?? 256;
+    const memory = args.memory ?? 512;
+    const desiredCount = args.desiredCount ?? 1;
+    const containerPort = args.containerPort ?? 3000;
+    const healthCheckPath = args.healthCheckPath ?? "/health";
+    const useFargateSpot = args.useFargateSpot ?? true;
+    const usePrivateSubnets = args.usePrivateSubnets ?? false;
+    const imageTag = args.imageTag ?? "latest";
+    const connectDatabase = args.connectDatabase ?? true;
+    const useSharedRoles = args.useSharedRoles ?? false;
+    const usePlatformRepository = args.usePlatformRepository ?? false;
+    const enableServiceConnect = args.enableServiceConnect ?? false;
+    const childOpts = { parent: this };
+
+    // Platform stack outputs
+    const {
+      vpcId,
+      publicSubnetIds,
+      privateSubnetIds,
+      defaultSecurityGroupId,
+      clusterArn,
+      taskExecutionRoleArn,
+      taskRoleArn,
+      httpsListenerArn,
+      albSecurityGroupId,
+      albDnsName,
+      albZoneId,
+      hostedZoneId,
+      domainName,
+      logGroupName,
+      region,
+      dbEndpoint,
+      dbReaderEndpoint,
+      dbPasswordSecretArn,
+      dbConnectionSecretArn,
+      dbTenantSecretArns,
+      albRoutes,
+      ecrRepositoryUrls,
+      ecrRepositoryArns,
+      serviceConnectNamespaceArn,
+      serviceConnectNamespaceName,
+      appPermissionsBoundaryArn,
+      platformName,
+      environment: platformEnvironment,
+    } = getPlatformOutputs(args.platformStack);
+
+    // Canonical cost-allocation tags (cost.ts) - same keys as the platform
+    const tags = {
+      ...canonicalTags("portfolio", platformEnvironment, appName),
+      ...args.tags,
+    };
+
+    // Prefer the app's own database login when the platform provisioned one
+    const dbTenantSecretArn = dbTenantSecretArns.apply((arns) => arns?.[appName]);
+
+    // ECR repository - platform-managed ({platformName}/{appName}) or app-owned
+    // (portfolio/{appName})
+    let ecrRepo: { repositoryUrl: pulumi.Output<string>; repositoryArn: pulumi.Output<string> };
+    if (usePlatformRepository) {
+      const platformRepo = (map: pulumi.Output<{ [app: string]: string } | undefined>) =>
+        map.apply((repos) => {
+          const value = repos?.[appName];
+          if (!value) {
+            throw new Error(`Platform stack does not manage an ECR repository for "${appName}" (ecrRepositories)`);
+          }
+          return value;
+        });
+      ecrRepo = {
+        repositoryUrl: platformRepo(ecrRepositoryUrls),
+        repositoryArn: platformRepo(ecrRepositoryArns),
+      };
+    } else {
+      const repo = createAppRepository("portfolio", appName, tags, childOpts);
+      // Fail fast instead of pushing to a second repository for the same app
+      const notPlatformManaged = ecrRepositoryUrls.apply((repos) => {
+        if (repos?.[appName]) {
+          throw new Error(
+            `Platform stack manages an ECR repository for "${appName}" (ecrRepositories) - ` +
+              `pass usePlatformRepository: true`
+          );
+        }
+      });
+      ecrRepo = {
+        repositoryUrl: pulumi.all([repo.repositoryUrl, notPlatformManaged]).apply(([url]) => url),
+        repositoryArn: pulumi.all([repo.repositoryArn, notPlatformManaged]).apply(([arn]) => arn),
+      };
+    }
+
+    // IAM roles - per-app, scoped to this app's image, logs and secrets
+    let executionRoleArn = taskExecutionRoleArn;
+    let appTaskRoleArn = taskRoleArn;
+    if (!useSharedRoles) {
+      const secretArns = pulumi
+        .all([pulumi.output(args.secrets ?? {}), dbPasswordSecretArn, dbConnectionSecretArn, dbTenantSecretArn])
+        .apply(([appSecrets, dbSecretArn, connectionSecretArn, tenantSecretArn]) => [
+          ...Object.values(appSecrets),
+          // The tenant secret is already under the app prefix
+          ...(connectDatabase && !tenantSecretArn ? [connectionSecretArn ?? dbSecretArn] : []),
+        ].filter((arn): arn is string => !!arn));
+
+      const roles = createAppRoles(appName, {
+        platformName,
+        appName,
+        logGroupName,
+        repositoryArn: ecrRepo.repositoryArn,
+        additionalSecretArns: secretArns,
+        taskPolicyStatements: args.taskPolicyStatements,
+        // Platforms without GitHub deploy roles export no boundary
+        permissionsBoundaryArn: appPermissionsBoundaryArn.apply((arn) => arn ?? ""),
+        tags,
+      }, childOpts);
+      executionRoleArn = roles.executionRoleArn;
+      appTaskRoleArn = roles.taskRoleArn;
+    }
+
+    // Security group - only the ALB can reach the container port
+    const appSg = new aws.ec2.SecurityGroup(`${appName}-sg`, {
+      vpcId,
+      description: `Security group for ${appName}`,
+      ingress: [
+        {
+          protocol: "tcp",
+          fromPort: containerPort,
+          toPort: containerPort,
+          securityGroups: [albSecurityGroupId],
+          description: "Allow traffic from ALB",
+        },
+      ],
+      egress: [
+        {
+          protocol: "-1",
+          fromPort: 0,
+          toPort: 0,
+          cidrBlocks: ["0.0.0.0/0"],
+        },
+      ],
+      tags: { ...tags, Name: `${appName}-sg` },
+    }, childOpts);
+
+    // Target group
+    const targetGroup = new aws.lb.TargetGroup(`${appName}-tg`, {
+      port: containerPort,
+      protocol: "HTTP",
+      vpcId,
+      targetType: "ip",
+      healthCheck: {
+        enabled: true,
+        path: healthCheckPath,
+        healthyThreshold: 2,
+        unhealthyThreshold: 3,
+        timeout: 5,
+        interval: 30,
+        matcher: "200",
+      },
+      deregistrationDelay: 30,
+      tags,
+    }, childOpts);
+
+    // Listener rule (host-based routing on HTTPS). Apps registered in the
+    // platform's albRoutes get a collision-free priority and optional path.
+    const fullHostname = pulumi.interpolate`${args.subdomain}.${domainName}`;
+    const route = albRoutes.apply((routes) => routes?.[appName]);
+
+    new aws.lb.ListenerRule(`${appName}-rule`, {
+      listenerArn: httpsListenerArn,
+      priority: route.apply((r) => r?.priority ?? legacyRulePriority(args.subdomain)),
+      conditions: pulumi.all([route, fullHostname]).apply(([r, hostname]) => [
+        {
+          hostHeader: {
+            values: [r?.host ?? hostname],
+          },
+        },
+        ...(r?.path ? [{ pathPattern: { values: [r.path] } }] : []),
+      ]),
+      actions: [
+        {
+          type: "forward",
+          targetGroupArn: targetGroup.arn,
+        },
+      ],
+      tags,
+    }, childOpts);
+
+    // DNS record pointing the subdomain at the shared ALB
+    createAlbDnsRecord(
+      appName,
+      args.subdomain,
+      hostedZoneId,
+      domainName,
+      albDnsName,
+      albZoneId,
+      childOpts
+    );
+
+    // Task definition
+    const environment = pulumi.output(args.environment ?? {});
+    const secrets = pulumi.output(args.secrets ?? {});
+    const database = pulumi.all([dbEndpoint, dbReaderEndpoint, dbPasswordSecretArn, dbConnectionSecretArn, dbTenantSecretArn]);
+
+    const taskDefinition = new aws.ecs.TaskDefinition(`${appName}-task`, {
+      family: appName,
+      cpu: cpu.toString(),
+      memory: memory.toString(),
+      networkMode: "awsvpc",
+      requiresCompatibilities: ["FARGATE"],
+      executionRoleArn: executionRoleArn,
+      taskRoleArn: appTaskRoleArn,
+      containerDefinitions: pulumi
+        .all([ecrRepo.repositoryUrl, logGroupName, region, database, environment, secrets])
+        .apply(([repoUrl, logGroup, awsRegion, [dbHost, dbReaderHost, dbSecretArn, connectionSecretArn, tenantSecretArn], extraEnv, extraSecrets]) => {
+          const env = [
+            { name: "NODE_ENV", value: "production" },
+            { name: "PORT", value: containerPort.toString() },
+          ];
+          const secretRefs: { name: string; valueFrom: string }[] = [];
+
+          // Add database config if available
+          if (connectDatabase && dbHost) {
+            env.push({ name: "DB_HOST", value: dbHost.split(":")[0] });
+            env.push({ name: "DB_READER_HOST", value: (dbReaderHost ?? dbHost).split(":")[0] });
+            env.push({ name: "DB_PORT", value: "5432" });
+            env.push({ name: "DB_NAME", value: tenantDbName(appName) });
+          }
+          if (connectDatabase && tenantSecretArn) {
+            secretRefs.push({ name: "DB_USER", valueFrom: `${tenantSecretArn}:username::` });
+            secretRefs.push({ name: "DB_PASSWORD", valueFrom: `${tenantSecretArn}:password::` });
+          } else if (connectDatabase && connectionSecretArn) {
+            // Structured secret stays current when the password is rotated
+            secretRefs.push({ name: "DB_USER", valueFrom: `${connectionSecretArn}:username::` });
+            secretRefs.push({ name: "DB_PASSWORD", valueFrom: `${connectionSecretArn}:password::` });
+          } else if (connectDatabase && dbHost) {
+            env.push({ name: "DB_USER", value: "portfolio_admin" });
+            if (dbSecretArn) {
+              secretRefs.push({ name: "DB_PASSWORD", valueFrom: dbSecretArn });
+            }
+          }
+
+          for (const [key, value] of Object.entries(extraEnv)) {
+            env.push({ name: key, value });
+          }
+          for (const [key, valueFrom] of Object.entries(extraSecrets)) {
+            secretRefs.push({ name: key, valueFrom });
+          }
+
+          return JSON.stringify([
+            {
+              name: appName,
+              image: `${repoUrl}:${imageTag}`,
+              essential: true,
+              portMappings: [
+                {
+                  // Service Connect refers to the port by name
+                  name: enableServiceConnect ? appName : undefined,
+                  containerPort: containerPort,
+                  protocol: "tcp",
+                  appProtocol: enableServiceConnect ? "http" : undefined,
+                },
+              ],
+              environment: env,
+              secrets: secretRefs.length > 0 ? secretRefs : undefined,
+              logConfiguration: {
+                logDriver: "awslogs",
+                options: {
+                  "awslogs-group": logGroup,
+                  "awslogs-region": awsRegion,
+                  "awslogs-stream-prefix": appName,
+                },
+              },
+              healthCheck: {
+                command: ["CMD-SHELL", `curl -f http://localhost:${containerPort}${healthCheckPath} || exit 1`],
+                interval: 30,
+                timeout: 5,
+                retries: 3,
+                startPeriod: 60,
+              },
+            },
+          ]);
+        }),
+      tags,
+    }, childOpts);
+
+    // ECS service
+    const service = new aws.ecs.Service(`${appName}-service`, {
+      name: appName,
+      cluster: clusterArn,
+      taskDefinition: taskDefinition.arn,
+      desiredCount: desiredCount,
+      launchType: useFargateSpot ? undefined : "FARGATE",
+      capacityProviderStrategies: useFargateSpot
+        ? [
+            {
+              capacityProvider: "FARGATE_SPOT",
+              weight: 1,
+              base: 0,
+            },
+            {
+              capacityProvider: "FARGATE",
+              weight: 0,
+              base: 1,
+            },
+          ]
+        : undefined,
+      networkConfiguration: {
+        subnets: usePrivateSubnets ? privateSubnetIds : publicSubnetIds,
+        securityGroups: [appSg.id, defaultSecurityGroupId],
+        assignPublicIp: !usePrivateSubnets,
+      },
+      loadBalancers: [
+        {
+          targetGroupArn: targetGroup.arn,
+          containerName: appName,
+          containerPort: containerPort,
+        },
+      ],
+      serviceConnectConfiguration: enableServiceConnect
+        ? {
+            enabled: true,
+            namespace: serviceConnectNamespaceArn.apply((arn) => {
+              if (!arn) {
+                throw new Error("enableServiceConnect needs the platform's enableServiceConnect config");
+              }
+              return arn;
+            }),
+            services: [
+              {
+                portName: appName,
+                discoveryName: appName,
+                clientAlias: [
+                  {
+                    port: containerPort,
+                    dnsName: pulumi.interpolate`${appName}.${serviceConnectNamespaceName}`,
+                  },
+                ],
+              },
+            ],
+          }
+        : undefined,
+      deploymentMinimumHealthyPercent: 50,
+      deploymentMaximumPercent: 200,
+      propagateTags: "SERVICE",
+      healthCheckGracePeriodSeconds: 60,
+      tags,
+    }, childOpts);
+
+    // Scheduled scaling (optional)
+    if (args.scheduledScaling) {
+      const schedule = args.scheduledScaling;
+
+      const scalingTarget = new aws.appautoscaling.Target(`${appName}-scaling-target`, {
+        maxCapacity: desiredCount,
+        minCapacity: 0,
+        resourceId: pulumi.interpolate`service/${clusterArn.apply((arn) => arn.split("/").pop())}/${service.name}`,
+        scalableDimension: "ecs:service:DesiredCount",
+        serviceNamespace: "ecs",
+        // GitHub app deploy roles can only manage targets tagged with their app
+        tags,
+      }, childOpts);
+
+      // Scale up in the morning
+      new aws.appautoscaling.ScheduledAction(`${appName}-scale-up`, {
+        name: `${appName}-scale-up`,
+        serviceNamespace: scalingTarget.serviceNamespace,
+        resourceId: scalingTarget.resourceId,
+        scalableDimension: scalingTarget.scalableDimension,
+        schedule: `cron(0 ${schedule.scaleUpHour} * * ? *)`,
+        timezone: schedule.timezone,
+        scalableTargetAction: {
+          minCapacity: desiredCount,
+          maxCapacity: desiredCount,
+        },
+      }, childOpts);
+
+      // Scale down at night
+      new aws.appautoscaling.ScheduledAction(`${appName}-scale-down`, {
+        name: `${appName}-scale-down`,
+        serviceNamespace: scalingTarget.serviceNamespace,
+        resourceId: scalingTarget.resourceId,
+        scalableDimension: scalingTarget.scalableDimension,
+        schedule: `cron(0 ${schedule.scaleDownHour} * * ? *)`,
+        timezone: schedule.timezone,
+        scalableTargetAction: {
+          minCapacity: 0,
+          maxCapacity: 0,
+        },
+      }, childOpts);
+    }
+
+    this.url = pulumi.interpolate`https://${fullHostname}`;
+    this.repositoryUrl = ecrRepo.repositoryUrl;
+    this.securityGroupId = appSg.id;
+    this.targetGroupArn = targetGroup.arn;
+    this.serviceName = service.name;
+    this.serviceArn = service.id;
+
+    this.registerOutputs({
+      url: this.url,
+      repositoryUrl: this.repositoryUrl,
+      securityGroupId: this.securityGroupId,
+      targetGroupArn: this.targetGroupArn,
+      serviceName: this.serviceName,
+      serviceArn: this.serviceArn,
+    });
+  }
+}
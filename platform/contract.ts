@@ -0,0 +1,201 @@
+import * as pulumi from "@pulumi/pulumi";
+
+import { AssignedRoute } from "./routing";
+
+// Platform outputs contract - the shape app stacks read through StackReference.
+// Bump PLATFORM_CONTRACT_VERSION whenever an output is renamed, removed or
+// changes type, so consumers built against the old shape refuse to deploy.
+export const PLATFORM_CONTRACT_VERSION = 1;
+
+export interface PlatformOutputs {
+  platformContractVersion: pulumi.Output<number>;
+
+  // VPC
+  vpcId: pulumi.Output<string>;
+  vpcCidrBlock: pulumi.Output<string>;
+  publicSubnetIds: pulumi.Output<string[]>;
+  privateSubnetIds: pulumi.Output<string[]>;
+  dataSubnetIds: pulumi.Output<string[]>;
+  defaultSecurityGroupId: pulumi.Output<string>;
+
+  // ALB
+  albArn: pulumi.Output<string>;
+  albDnsName: pulumi.Output<string>;
+  albZoneId: pulumi.Output<string>;
+  httpListenerArn: pulumi.Output<string>;
+  httpsListenerArn: pulumi.Output<string>;
+  albSecurityGroupId: pulumi.Output<string>;
+  wafWebAclArn: pulumi.Output<string | undefined>;
+  albRoutes: pulumi.Output<{ [app: string]: AssignedRoute } | undefined>;
+
+  // DNS
+  hostedZoneId: pulumi.Output<string>;
+  certificateArn: pulumi.Output<string>;
+
+  // ECS
+  clusterArn: pulumi.Output<string>;
+  clusterName: pulumi.Output<string>;
+  taskExecutionRoleArn: pulumi.Output<string>;
+  taskRoleArn: pulumi.Output<string>;
+  serviceConnectNamespaceId: pulumi.Output<string | undefined>;
+  serviceConnectNamespaceArn: pulumi.Output<string | undefined>;
+  serviceConnectNamespaceName: pulumi.Output<string | undefined>;
+
+  // ECR (platform-managed app repositories)
+  ecrRepositoryUrls: pulumi.Output<{ [app: string]: string } | undefined>;
+  ecrRepositoryArns: pulumi.Output<{ [app: string]: string } | undefined>;
+
+  // GitHub Actions (optional) - boundary for roles app deploy roles create
+  appPermissionsBoundaryArn: pulumi.Output<string | undefined>;
+
+  // Database (optional)
+  dbEndpoint: pulumi.Output<string | undefined>;
+  dbReaderEndpoint: pulumi.Output<string | undefined>;
+  dbPort: pulumi.Output<number | undefined>;
+  dbName: pulumi.Output<string | undefined>;
+  dbUsername: pulumi.Output<string | undefined>;
+  dbPasswordSecretArn: pulumi.Output<string | undefined>;
+  dbConnectionSecretArn: pulumi.Output<string | undefined>;
+  dbSecurityGroupId: pulumi.Output<string | undefined>;
+  dbTenantSecretArns: pulumi.Output<{ [app: string]: string } | undefined>;
+
+  // Logs
+  logGroupName: pulumi.Output<string>;
+
+  // Monitoring (optional)
+  alertTopicArn: pulumi.Output<string | undefined>;
+
+  // Metadata
+  platformName: pulumi.Output<string>;
+  environment: pulumi.Output<string>;
+  domainName: pulumi.Output<string>;
+  region: pulumi.Output<string>;
+}
+
+type OutputKind = "string" | "number" | "string[]" | "map" | "object";
+
+interface OutputSpec {
+  kind: OutputKind;
+  required: boolean;
+}
+
+const outputSpecs: { [K in Exclude<keyof PlatformOutputs, "platformContractVersion">]: OutputSpec } = {
+  vpcId: { kind: "string", required: true },
+  vpcCidrBlock: { kind: "string", required: true },
+  publicSubnetIds: { kind: "string[]", required: true },
+  privateSubnetIds: { kind: "string[]", required: true },
+  dataSubnetIds: { kind: "string[]", required: true },
+  defaultSecurityGroupId: { kind: "string", required: true },
+
+  albArn: { kind: "string", required: true },
+  albDnsName: { kind: "string", required: true },
+  albZoneId: { kind: "string", required: true },
+  httpListenerArn: { kind: "string", required: true },
+  httpsListenerArn: { kind: "string", required: true },
+  albSecurityGroupId: { kind: "string", required: true },
+  wafWebAclArn: { kind: "string", required: false },
+  albRoutes: { kind: "object", required: false },
+
+  hostedZoneId: { kind: "string", required: true },
+  certificateArn: { kind: "string", required: true },
+
+  clusterArn: { kind: "string", required: true },
+  clusterName: { kind: "string", required: true },
+  taskExecutionRoleArn: { kind: "string", required: true },
+  taskRoleArn: { kind: "string", required: true },
+  serviceConnectNamespaceId: { kind: "string", required: false },
+  serviceConnectNamespaceArn: { kind: "string", required: false },
+  serviceConnectNamespaceName: { kind: "string", required: false },
+
+  ecrRepositoryUrls: { kind: "map", required: false },
+  ecrRepositoryArns: { kind: "map", required: false },
+
+  appPermissionsBoundaryArn: { kind: "string", required: false },
+
+  dbEndpoint: { kind: "string", required: false },
+  dbReaderEndpoint: { kind: "string", required: false },
+  dbPort: { kind: "number", required: false },
+  dbName: { kind: "string", required: false },
+  dbUsername: { kind: "string", required: false },
+  dbPasswordSecretArn: { kind: "string", required: false },
+  dbConnectionSecretArn: { kind: "string", required: false },
+  dbSecurityGroupId: { kind: "string", required: false },
+  dbTenantSecretArns: { kind: "map", required: false },
+
+  logGroupName: { kind: "string", required: true },
+
+  alertTopicArn: { kind: "string", required: false },
+
+  platformName: { kind: "string", required: true },
+  environment: { kind: "string", required: true },
+  domainName: { kind: "string", required: true },
+  region: { kind: "string", required: true },
+};
+
+function matchesKind(value: unknown, kind: OutputKind): boolean {
+  switch (kind) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number";
+    case "string[]":
+      return Array.isArray(value) && value.every((v) => typeof v === "string");
+    case "map":
+      return (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.values(value).every((v) => typeof v === "string")
+      );
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
+
+// Read the platform outputs from a StackReference, failing the deploy with a
+// clear message when an output is missing, has the wrong type, or the
+// platform was built against a different contract version.
+export function getPlatformOutputs(stackRef: pulumi.StackReference): PlatformOutputs {
+  const platformContractVersion = pulumi
+    .all([stackRef.name, stackRef.getOutput("platformContractVersion")])
+    .apply(([stackName, version]) => {
+      if (version === undefined || version === null) {
+        throw new Error(
+          `Platform stack "${stackName}" does not export "platformContractVersion"; ` +
+            `upgrade the platform to contract version ${PLATFORM_CONTRACT_VERSION}`
+        );
+      }
+      if (version !== PLATFORM_CONTRACT_VERSION) {
+        throw new Error(
+          `Platform stack "${stackName}" exports contract version ${version}, ` +
+            `but this app expects version ${PLATFORM_CONTRACT_VERSION}`
+        );
+      }
+      return version as number;
+    });
+
+  const outputs: { [key: string]: pulumi.Output<unknown> } = {
+    platformContractVersion,
+  };
+
+  for (const [key, spec] of Object.entries(outputSpecs)) {
+    outputs[key] = pulumi
+      .all([stackRef.name, platformContractVersion, stackRef.getOutput(key)])
+      .apply(([stackName, _version, value]) => {
+        if (value === undefined || value === null) {
+          if (spec.required) {
+            throw new Error(`Platform stack "${stackName}" is missing required output "${key}"`);
+          }
+          return undefined;
+        }
+        if (!matchesKind(value, spec.kind)) {
+          throw new Error(
+            `Platform stack "${stackName}" output "${key}" should be ${spec.kind}, got ${JSON.stringify(value)}`
+          );
+        }
+        return value;
+      });
+  }
+
+  return outputs as unknown as PlatformOutputs;
+}
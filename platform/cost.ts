@@ -0,0 +1,204 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as aws from "@pulumi/aws";
+
+// Cost guardrails - a monthly AWS Budget per environment, a Cost Anomaly
+// Detection monitor scoped to the environment, and the canonical tag set that
+// both of them (and Cost Explorer) group spend by.
+//
+// Filtering on the Environment tag only works once the tag is active in
+// Billing, and it never sees untagged spend (NAT data transfer, support). Until
+// then the budget covers the whole account and there is no anomaly monitor.
+
+// Tag keys every platform and app resource carries
+export const costAllocationTagKeys = ["Project", "Environment", "App", "ManagedBy"];
+
+// Canonical tags - the platform itself is tagged App=platform. App stacks get
+// the environment from the platform outputs, so it may be an Output there.
+export function canonicalTags<T extends pulumi.Input<string>>(
+  projectName: string,
+  environment: T,
+  app: string
+): { [key: string]: T | string } {
+  return {
+    Project: projectName,
+    Environment: environment,
+    App: app,
+    ManagedBy: "pulumi",
+  };
+}
+
+export interface CostGuardrailsInputs {
+  environment: string;
+  monthlyBudgetUsd: number;
+  // Percent of the budget for actual-spend alerts; forecast alerts fire at 100%
+  actualThresholds?: number[];
+  // Alert on anomalies whose total impact is at least this many dollars
+  anomalyThresholdUsd?: number;
+  alertEmails: string[];
+  // Platform alert topic (monitoring.ts) - budgets and anomalies publish to it
+  alertTopicArn?: pulumi.Output<string>;
+  // Activate the tag keys in Billing. Account-wide, so only one stack per
+  // account should do it, and only once the tags show up in billing data.
+  activateTags?: boolean;
+  // The Environment tag is active in Billing (by this stack or another one),
+  // so the budget and anomaly monitor can be scoped to this environment
+  tagsActive?: boolean;
+  tags: { [key: string]: string };
+}
+
+export interface CostGuardrailsOutputs {
+  budgetName: pulumi.Output<string>;
+  // Only when tagsActive
+  anomalyMonitorArn?: pulumi.Output<string>;
+}
+
+export function createCostGuardrails(name: string, inputs: CostGuardrailsInputs): CostGuardrailsOutputs {
+  const actualThresholds = inputs.actualThresholds ?? [50, 80, 100];
+  const anomalyThresholdUsd = inputs.anomalyThresholdUsd ?? 10;
+
+  // The alert topic only reaches people through the alertEmails subscriptions
+  if (inputs.alertEmails.length === 0) {
+    throw new Error("Cost guardrails need alertEmails - budget and anomaly alerts would reach no one");
+  }
+
+  if (inputs.activateTags) {
+    for (const key of costAllocationTagKeys) {
+      new aws.costexplorer.CostAllocationTag(`${name}-cost-tag-${key.toLowerCase()}`, {
+        tagKey: key,
+        status: "Active",
+      });
+    }
+  }
+
+  // Let Budgets and Cost Anomaly Detection publish to the alert topic. This
+  // replaces the topic's default policy, so its account-owner statement is kept.
+  let topicPolicy: aws.sns.TopicPolicy | undefined;
+  if (inputs.alertTopicArn) {
+    const accountId = aws.getCallerIdentityOutput().accountId;
+    topicPolicy = new aws.sns.TopicPolicy(`${name}-alerts-cost-policy`, {
+      arn: inputs.alertTopicArn,
+      policy: {
+        Version: "2012-10-17",
+        Statement: [
+          {
+            Sid: "AccountOwner",
+            Effect: "Allow",
+            Principal: { AWS: "*" },
+            Action: [
+              "SNS:GetTopicAttributes",
+              "SNS:SetTopicAttributes",
+              "SNS:AddPermission",
+              "SNS:RemovePermission",
+              "SNS:DeleteTopic",
+              "SNS:Subscribe",
+              "SNS:ListSubscriptionsByTopic",
+              "SNS:Publish",
+            ],
+            Resource: inputs.alertTopicArn,
+            Condition: {
+              StringEquals: { "AWS:SourceOwner": accountId },
+            },
+          },
+          {
+            Sid: "CostAlerts",
+            Effect: "Allow",
+            Principal: { Service: ["budgets.amazonaws.com", "costalerts.amazonaws.com"] },
+            Action: "SNS:Publish",
+            Resource: inputs.alertTopicArn,
+            Condition: {
+              StringEquals: { "aws:SourceAccount": accountId },
+            },
+          },
+        ],
+      },
+    });
+  }
+
+  // The alert topic already emails its subscribers
+  const subscribers = inputs.alertTopicArn
+    ? { subscriberSnsTopicArns: [inputs.alertTopicArn] }
+    : { subscriberEmailAddresses: inputs.alertEmails };
+
+  if (!inputs.tagsActive) {
+    pulumi.log.warn(
+      `The ${name} budget covers the whole account and no anomaly monitor is created ` +
+        "until the Environment cost allocation tag is active (costAllocationTagsActive)"
+    );
+  }
+
+  // Monthly budget for everything tagged with this environment, or for the
+  // whole account while the tag isn't active
+  const budget = new aws.budgets.Budget(`${name}-monthly-budget`, {
+    name: `${name}-monthly`,
+    budgetType: "COST",
+    limitAmount: inputs.monthlyBudgetUsd.toFixed(2),
+    limitUnit: "USD",
+    timeUnit: "MONTHLY",
+    costFilters: inputs.tagsActive
+      ? [
+          {
+            name: "TagKeyValue",
+            values: [`user:Environment$${inputs.environment}`],
+          },
+        ]
+      : [],
+    notifications: [
+      ...actualThresholds.map((threshold) => ({
+        comparisonOperator: "GREATER_THAN",
+        notificationType: "ACTUAL",
+        threshold,
+        thresholdType: "PERCENTAGE",
+        ...subscribers,
+      })),
+      {
+        comparisonOperator: "GREATER_THAN",
+        notificationType: "FORECASTED",
+        threshold: 100,
+        thresholdType: "PERCENTAGE",
+        ...subscribers,
+      },
+    ],
+    tags: inputs.tags,
+  }, { dependsOn: topicPolicy ? [topicPolicy] : [] });
+
+  if (!inputs.tagsActive) {
+    return { budgetName: budget.name };
+  }
+
+  // Anomaly detection on this environment's spend
+  const monitor = new aws.costexplorer.AnomalyMonitor(`${name}-cost-anomalies`, {
+    name: `${name}-cost-anomalies`,
+    monitorType: "CUSTOM",
+    monitorSpecification: JSON.stringify({
+      Tags: {
+        Key: "Environment",
+        Values: [inputs.environment],
+        MatchOptions: ["EQUALS"],
+      },
+    }),
+    tags: inputs.tags,
+  });
+
+  // SNS subscriptions must be immediate; email-only gets a daily summary
+  new aws.costexplorer.AnomalySubscription(`${name}-cost-anomaly-alerts`, {
+    name: `${name}-cost-anomaly-alerts`,
+    frequency: inputs.alertTopicArn ? "IMMEDIATE" : "DAILY",
+    monitorArnLists: [monitor.arn],
+    subscribers: inputs.alertTopicArn
+      ? [{ type: "SNS", address: inputs.alertTopicArn }]
+      : inputs.alertEmails.map((address) => ({ type: "EMAIL", address })),
+    thresholdExpression: {
+      dimension: {
+        key: "ANOMALY_TOTAL_IMPACT_ABSOLUTE",
+        matchOptions: ["GREATER_THAN_OR_EQUAL"],
+        values: [anomalyThresholdUsd.toString()],
+      },
+    },
+    tags: inputs.tags,
+  }, { dependsOn: topicPolicy ? [topicPolicy] : [] });
+
+  return {
+    budgetName: budget.name,
+    anomalyMonitorArn: monitor.arn,
+  };
+}
@@ -0,0 +1,123 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as aws from "@pulumi/aws";
+import * as postgresql from "@pulumi/postgresql";
+import * as random from "@pulumi/random";
+
+// Per-app databases on the shared RDS instance. Each tenant app gets its own
+// database, its own login role and a connection secret under the app's
+// `${name}/${app}/` prefix (readable by its per-app execution role, see iam.ts).
+//
+// The PostgreSQL provider connects to the instance from wherever `pulumi up`
+// runs, so the deployer needs a network path into the VPC (e.g. Tailscale).
+
+export interface DbTenantsInputs {
+  apps: string[];
+  dbAddress: pulumi.Output<string>;
+  dbPort: pulumi.Output<number>;
+  masterDbName: pulumi.Output<string>;
+  masterUsername: pulumi.Output<string>;
+  masterPassword: pulumi.Output<string>;
+  dependsOn?: pulumi.Resource[];
+  tags: { [key: string]: string };
+}
+
+export interface DbTenantsOutputs {
+  connectionSecretArns: { [app: string]: pulumi.Output<string> };
+}
+
+// Postgres identifiers can't contain dashes - same mapping apps use for DB_NAME
+export function tenantDbName(app: string): string {
+  return app.replace(/-/g, "_");
+}
+
+export function createDbTenants(name: string, inputs: DbTenantsInputs): DbTenantsOutputs {
+  const seen = new Set<string>();
+  for (const app of inputs.apps) {
+    if (!/^[a-z][a-z0-9-]*$/.test(app)) {
+      throw new Error(`Invalid database tenant app name "${app}"; use lowercase letters, digits and dashes`);
+    }
+    if (seen.has(app)) {
+      throw new Error(`Duplicate database tenant app "${app}"`);
+    }
+    seen.add(app);
+  }
+
+  const provider = new postgresql.Provider(`${name}-postgres-provider`, {
+    host: inputs.dbAddress,
+    port: inputs.dbPort,
+    database: inputs.masterDbName,
+    username: inputs.masterUsername,
+    password: inputs.masterPassword,
+    sslmode: "require",
+    superuser: false, // RDS master user is not a real superuser
+  }, { dependsOn: inputs.dependsOn });
+
+  const connectionSecretArns: { [app: string]: pulumi.Output<string> } = {};
+
+  for (const app of inputs.apps) {
+    const dbName = tenantDbName(app);
+
+    // Alphanumeric only so the password is safe in connection URLs
+    const password = new random.RandomPassword(`${name}-${app}-db-password`, {
+      length: 32,
+      special: false,
+    });
+
+    // Login role
+    const role = new postgresql.Role(`${name}-${app}-db-role`, {
+      name: dbName,
+      login: true,
+      password: password.result,
+    }, { provider });
+
+    // Database owned by the app's role
+    const database = new postgresql.Database(`${name}-${app}-db`, {
+      name: dbName,
+      owner: role.name,
+    }, { provider });
+
+    // Other roles (including other tenants) can't connect to this database
+    new postgresql.Grant(`${name}-${app}-db-revoke-public`, {
+      database: database.name,
+      role: "public",
+      objectType: "database",
+      privileges: [],
+    }, { provider });
+
+    new postgresql.Grant(`${name}-${app}-db-grant`, {
+      database: database.name,
+      role: role.name,
+      objectType: "database",
+      privileges: ["CONNECT", "CREATE", "TEMPORARY"],
+    }, { provider });
+
+    // Connection secret
+    const secret = new aws.secretsmanager.Secret(`${name}-${app}-db-secret`, {
+      name: `${name}/${app}/db-credentials`,
+      description: `Database credentials for ${app}`,
+      tags: { ...inputs.tags, App: app },
+    });
+
+    new aws.secretsmanager.SecretVersion(`${name}-${app}-db-secret-version`, {
+      secretId: secret.id,
+      secretString: pulumi
+        .all([inputs.dbAddress, inputs.dbPort, role.name, password.result, database.name])
+        .apply(([host, port, username, pwd, dbname]) =>
+          JSON.stringify({
+            engine: "postgres",
+            host,
+            port,
+            username,
+            password: pwd,
+            dbname,
+          })
+        ),
+    });
+
+    connectionSecretArns[app] = secret.arn;
+  }
+
+  return {
+    connectionSecretArns,
+  };
+}
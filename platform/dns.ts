@@ -1,14 +1,31 @@
 import * as pulumi from "@pulumi/pulumi";
 import * as aws from "@pulumi/aws";
 
+import { createAcmCertificate } from "./acm";
+
 export interface DnsOutputs {
   hostedZoneId: pulumi.Output<string>;
   certificateArn: pulumi.Output<string>;
+  // Certificates for extra domains, attached to the HTTPS listener via SNI
+  additionalCertificateArns: pulumi.Output<string>[];
+  domainName: string;
+}
+
+export interface AdditionalCertificate {
   domainName: string;
+  subjectAlternativeNames?: string[];
+  // Route53 zone holding the validation records - defaults to domainName
+  hostedZoneName?: string;
 }
 
 export interface DnsInputs {
   domainName: string;
+  // Request and validate the apex + wildcard certificate here instead of
+  // looking up an existing ISSUED one
+  manageCertificate?: boolean;
+  // Extra SANs for the managed certificate
+  subjectAlternativeNames?: string[];
+  additionalCertificates?: AdditionalCertificate[];
   tags: { [key: string]: string };
 }
 
@@ -18,16 +35,42 @@ export function createDns(name: string, inputs: DnsInputs): DnsOutputs {
     name: inputs.domainName,
   });
 
-  // Use existing wildcard certificate
-  const certificate = aws.acm.getCertificateOutput({
-    domain: inputs.domainName,
-    statuses: ["ISSUED"],
-    mostRecent: true,
+  let certificateArn: pulumi.Output<string>;
+  if (inputs.manageCertificate) {
+    // Platform-owned certificate, validated through the hosted zone
+    certificateArn = createAcmCertificate(name, {
+      domainName: inputs.domainName,
+      subjectAlternativeNames: [`*.${inputs.domainName}`, ...(inputs.subjectAlternativeNames ?? [])],
+      hostedZoneId: hostedZone.id,
+      tags: inputs.tags,
+    }).certificateArn;
+  } else {
+    // Use existing wildcard certificate
+    certificateArn = aws.acm.getCertificateOutput({
+      domain: inputs.domainName,
+      statuses: ["ISSUED"],
+      mostRecent: true,
+    }).arn;
+  }
+
+  const additionalCertificateArns = (inputs.additionalCertificates ?? []).map((cert) => {
+    const zone = aws.route53.getZoneOutput({
+      name: cert.hostedZoneName ?? cert.domainName,
+    });
+    const slug = cert.domainName.replace(/^\*\./, "wildcard-").replace(/\./g, "-");
+
+    return createAcmCertificate(`${name}-${slug}`, {
+      domainName: cert.domainName,
+      subjectAlternativeNames: cert.subjectAlternativeNames,
+      hostedZoneId: zone.id,
+      tags: inputs.tags,
+    }).certificateArn;
   });
 
   return {
     hostedZoneId: hostedZone.id,
-    certificateArn: certificate.arn,
+    certificateArn,
+    additionalCertificateArns,
     domainName: inputs.domainName,
   };
 }
@@ -36,14 +79,15 @@ export function createDns(name: string, inputs: DnsInputs): DnsOutputs {
 export function createAlbDnsRecord(
   name: string,
   subdomain: string,
-  hostedZoneId: pulumi.Output<string>,
-  domainName: string,
-  albDnsName: pulumi.Output<string>,
-  albZoneId: pulumi.Output<string>
+  hostedZoneId: pulumi.Input<string>,
+  domainName: pulumi.Input<string>,
+  albDnsName: pulumi.Input<string>,
+  albZoneId: pulumi.Input<string>,
+  opts?: pulumi.CustomResourceOptions
 ): aws.route53.Record {
   return new aws.route53.Record(`${name}-${subdomain}-record`, {
     zoneId: hostedZoneId,
-    name: `${subdomain}.${domainName}`,
+    name: pulumi.interpolate`${subdomain}.${domainName}`,
     type: "A",
     aliases: [
       {
@@ -52,5 +96,5 @@ export function createAlbDnsRecord(
         evaluateTargetHealth: true,
       },
     ],
-  });
+  }, opts);
 }
\ No newline at end of file
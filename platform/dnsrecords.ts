@@ -0,0 +1,189 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as aws from "@pulumi/aws";
+import * as crypto from "crypto";
+
+// Declarative DNS records for the platform hosted zone. Records come from the
+// `dnsRecords` stack config so the whole zone (apex, www, email, verification
+// TXT) is managed in code rather than in the console.
+//
+// Names are relative to the platform domain: "@" is the apex, "www" becomes
+// www.<domain>. A fully qualified name needs a trailing dot and must be inside
+// the domain.
+
+export type DnsRecordType = "A" | "AAAA" | "CNAME" | "TXT" | "MX" | "CAA";
+
+export interface DnsRecordSpec {
+  name: string;
+  type: DnsRecordType;
+  // Omit for A/AAAA to alias the record to the shared ALB
+  values?: string[];
+  ttl?: number;
+  // Take over a record that already exists in the zone
+  allowOverwrite?: boolean;
+}
+
+export interface DnsRecordsInputs {
+  hostedZoneId: pulumi.Output<string>;
+  domainName: string;
+  records: DnsRecordSpec[];
+  albDnsName: pulumi.Output<string>;
+  albZoneId: pulumi.Output<string>;
+}
+
+export interface DnsRecordsOutputs {
+  recordNames: string[];
+}
+
+const recordTypes: DnsRecordType[] = ["A", "AAAA", "CNAME", "TXT", "MX", "CAA"];
+const labelPattern = /^(\*\.)?[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?(\.[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?)*$/;
+
+function resolveRecordName(recordName: string, domainName: string): string {
+  const domain = domainName.toLowerCase();
+  const raw = recordName.trim().toLowerCase();
+
+  if (raw === "@" || raw === "") {
+    return domain;
+  }
+
+  const fqdn = raw.endsWith(".");
+  const trimmed = fqdn ? raw.slice(0, -1) : raw;
+
+  let resolved: string;
+  if (trimmed === domain || trimmed.endsWith(`.${domain}`)) {
+    resolved = trimmed;
+  } else if (fqdn) {
+    throw new Error(`DNS record "${recordName}" is outside the ${domain} zone`);
+  } else {
+    resolved = `${trimmed}.${domain}`;
+  }
+
+  if (!labelPattern.test(resolved)) {
+    throw new Error(`DNS record name "${recordName}" is not a valid hostname`);
+  }
+  return resolved;
+}
+
+// Route53 wants TXT values quoted, in chunks of at most 255 characters
+function formatTxtValue(value: string): string {
+  if (value.startsWith('"')) {
+    return value;
+  }
+  const chunks = value.match(/.{1,255}/g) ?? [""];
+  return chunks.map((c) => `"${c.replace(/"/g, '\\"')}"`).join(" ");
+}
+
+function validateRecord(record: DnsRecordSpec, fqdn: string, domainName: string): void {
+  const label = `DNS record ${record.type} ${fqdn}`;
+
+  if (!recordTypes.includes(record.type)) {
+    throw new Error(`${label}: unsupported type; expected one of ${recordTypes.join(", ")}`);
+  }
+
+  const values = record.values ?? [];
+  const isAlias = (record.type === "A" || record.type === "AAAA") && values.length === 0;
+  if (!isAlias && values.length === 0) {
+    throw new Error(`${label}: needs at least one value`);
+  }
+
+  switch (record.type) {
+    case "CNAME":
+      if (fqdn === domainName.toLowerCase()) {
+        throw new Error(`${label}: a CNAME can't be created at the zone apex; use an A alias`);
+      }
+      if (values.length !== 1) {
+        throw new Error(`${label}: a CNAME takes exactly one value`);
+      }
+      break;
+    case "MX":
+      for (const value of values) {
+        if (!/^\d+\s+\S+$/.test(value)) {
+          throw new Error(`${label}: MX value "${value}" must be "<priority> <host>"`);
+        }
+      }
+      break;
+    case "CAA":
+      for (const value of values) {
+        if (!/^\d+\s+(issue|issuewild|iodef)\s+".*"$/.test(value)) {
+          throw new Error(`${label}: CAA value "${value}" must be '<flags> <tag> "<value>"'`);
+        }
+      }
+      break;
+  }
+}
+
+// Names made only of letters, digits and hyphens keep a plain slug; any other
+// name gets a short hash of the full name, since `a.b` and `a-b` would
+// otherwise share one
+function resourceSlug(fqdn: string, domainName: string): string {
+  if (fqdn === domainName.toLowerCase()) {
+    return "apex";
+  }
+  const slug = fqdn
+    .slice(0, -(domainName.length + 1))
+    .replace(/^\*/, "wildcard")
+    .replace(/[^a-z0-9-]/g, "-");
+  if (fqdn === `${slug}.${domainName.toLowerCase()}`) {
+    return slug;
+  }
+  const hash = crypto.createHash("sha256").update(fqdn).digest("hex").slice(0, 8);
+  return `${slug}-${hash}`;
+}
+
+export function createDnsRecords(name: string, inputs: DnsRecordsInputs): DnsRecordsOutputs {
+  const seen = new Map<string, Set<DnsRecordType>>();
+
+  const records = inputs.records.map((record) => {
+    const fqdn = resolveRecordName(record.name, inputs.domainName);
+    validateRecord(record, fqdn, inputs.domainName);
+
+    // One record set per name + type, and a CNAME can't share its name
+    const types = seen.get(fqdn) ?? new Set<DnsRecordType>();
+    if (types.has(record.type)) {
+      throw new Error(`DNS record ${record.type} ${fqdn} is defined more than once`);
+    }
+    if (types.size > 0 && (record.type === "CNAME" || types.has("CNAME"))) {
+      throw new Error(`DNS record ${fqdn}: a CNAME can't coexist with other records`);
+    }
+    types.add(record.type);
+    seen.set(fqdn, types);
+
+    return { ...record, fqdn };
+  });
+
+  for (const record of records) {
+    const slug = resourceSlug(record.fqdn, inputs.domainName);
+    const resourceName = `${name}-dns-${slug}-${record.type.toLowerCase()}`;
+    const values = record.values ?? [];
+
+    if ((record.type === "A" || record.type === "AAAA") && values.length === 0) {
+      // Alias to the shared ALB
+      new aws.route53.Record(resourceName, {
+        zoneId: inputs.hostedZoneId,
+        name: record.fqdn,
+        type: record.type,
+        aliases: [
+          {
+            name: inputs.albDnsName,
+            zoneId: inputs.albZoneId,
+            evaluateTargetHealth: true,
+          },
+        ],
+        allowOverwrite: record.allowOverwrite,
+      });
+      continue;
+    }
+
+    new aws.route53.Record(resourceName, {
+      zoneId: inputs.hostedZoneId,
+      name: record.fqdn,
+      type: record.type,
+      ttl: record.ttl ?? 300,
+      records: record.type === "TXT" ? values.map(formatTxtValue) : values,
+      allowOverwrite: record.allowOverwrite,
+    });
+  }
+
+  return {
+    recordNames: records.map((r) => `${r.type} ${r.fqdn}`),
+  };
+}
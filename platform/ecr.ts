@@ -7,39 +7,114 @@ export interface EcrOutputs {
   repositoryName: pulumi.Output<string>;
 }
 
+export type EcrScanning = "off" | "scan-on-push" | "enhanced";
+
+export interface EcrRepositorySettings {
+  imageTagMutability?: "MUTABLE" | "IMMUTABLE";
+  // enhanced uses Amazon Inspector continuous scanning (billed per image)
+  scanning?: EcrScanning;
+  // Days to keep untagged images (old layers of retagged images)
+  untaggedExpireDays?: number;
+  // Tags that mark a release, e.g. "v" matches v1.2.3
+  releaseTagPrefixes?: string[];
+  releaseKeepCount?: number;
+  // Other tagged images (commit SHAs, branches, latest)
+  taggedKeepCount?: number;
+}
+
+// Registry entry from the `ecrRepositories` config - settings override the defaults
+export interface EcrRepositoryConfig extends EcrRepositorySettings {
+  app: string;
+}
+
+export const defaultRepositorySettings: Required<EcrRepositorySettings> = {
+  imageTagMutability: "MUTABLE",
+  scanning: "scan-on-push",
+  untaggedExpireDays: 7,
+  releaseTagPrefixes: ["v"],
+  releaseKeepCount: 20,
+  taggedKeepCount: 10,
+};
+
+function lifecycleRules(settings: Required<EcrRepositorySettings>) {
+  return [
+    {
+      rulePriority: 1,
+      description: `Expire untagged images after ${settings.untaggedExpireDays} days`,
+      selection: {
+        tagStatus: "untagged",
+        countType: "sinceImagePushed",
+        countUnit: "days",
+        countNumber: settings.untaggedExpireDays,
+      },
+      action: { type: "expire" },
+    },
+    {
+      rulePriority: 2,
+      description: `Keep last ${settings.releaseKeepCount} release images`,
+      selection: {
+        tagStatus: "tagged",
+        tagPrefixList: settings.releaseTagPrefixes,
+        countType: "imageCountMoreThan",
+        countNumber: settings.releaseKeepCount,
+      },
+      action: { type: "expire" },
+    },
+    {
+      rulePriority: 3,
+      description: `Keep last ${settings.taggedKeepCount} other tagged images`,
+      selection: {
+        tagStatus: "tagged",
+        tagPatternList: ["*"],
+        countType: "imageCountMoreThan",
+        countNumber: settings.taggedKeepCount,
+      },
+      action: { type: "expire" },
+    },
+  ];
+}
+
+// Without settings, keeps the original behaviour (mutable, no scanning, keep
+// last 3 images) so existing app-owned repositories don't change
 export function createEcrRepository(
   name: string,
-  tags: { [key: string]: string }
+  tags: { [key: string]: pulumi.Input<string> },
+  opts?: pulumi.CustomResourceOptions,
+  settings?: EcrRepositorySettings
 ): EcrOutputs {
+  const resolved = settings ? { ...defaultRepositorySettings, ...settings } : undefined;
+
   const repo = new aws.ecr.Repository(`${name}-repo`, {
     name: name,
-    imageTagMutability: "MUTABLE",
+    imageTagMutability: resolved?.imageTagMutability ?? "MUTABLE",
     imageScanningConfiguration: {
-      scanOnPush: false,
+      scanOnPush: resolved ? resolved.scanning !== "off" : false,
     },
     tags,
-  });
+  }, opts);
 
   // Lifecycle policy to keep costs down
   new aws.ecr.LifecyclePolicy(`${name}-lifecycle`, {
     repository: repo.name,
     policy: JSON.stringify({
-      rules: [
-        {
-          rulePriority: 1,
-          description: "Keep last 3 images",
-          selection: {
-            tagStatus: "any",
-            countType: "imageCountMoreThan",
-            countNumber: 3,
-          },
-          action: {
-            type: "expire",
-          },
-        },
-      ],
+      rules: resolved
+        ? lifecycleRules(resolved)
+        : [
+            {
+              rulePriority: 1,
+              description: "Keep last 3 images",
+              selection: {
+                tagStatus: "any",
+                countType: "imageCountMoreThan",
+                countNumber: 3,
+              },
+              action: {
+                type: "expire",
+              },
+            },
+          ],
     }),
-  });
+  }, opts);
 
   return {
     repositoryUrl: repo.repositoryUrl,
@@ -52,7 +127,60 @@ export function createEcrRepository(
 export function createAppRepository(
   platformName: string,
   appName: string,
-  tags: { [key: string]: string }
+  tags: { [key: string]: pulumi.Input<string> },
+  opts?: pulumi.CustomResourceOptions,
+  settings?: EcrRepositorySettings
 ): EcrOutputs {
-  return createEcrRepository(`${platformName}/${appName}`, tags);
+  return createEcrRepository(`${platformName}/${appName}`, tags, opts, settings);
+}
+
+export interface EcrRegistryInputs {
+  repositories: EcrRepositoryConfig[];
+  tags: { [key: string]: string };
+}
+
+export interface EcrRegistryOutputs {
+  repositoryUrls: { [app: string]: pulumi.Output<string> };
+  repositoryArns: { [app: string]: pulumi.Output<string> };
+}
+
+// Platform-managed app repositories ({platformName}/{app}, e.g. portfolio-dev/my-app),
+// so the dev and prod platforms in one account don't claim the same names and
+// neither collides with an app-owned portfolio/{app}. Enhanced scanning is a
+// registry-wide setting, so only one stack per account and region should list
+// repositories with scanning: enhanced.
+export function createEcrRegistry(platformName: string, inputs: EcrRegistryInputs): EcrRegistryOutputs {
+  const repositoryUrls: { [app: string]: pulumi.Output<string> } = {};
+  const repositoryArns: { [app: string]: pulumi.Output<string> } = {};
+
+  for (const { app, ...settings } of inputs.repositories) {
+    if (repositoryUrls[app]) {
+      throw new Error(`ECR repository for "${app}" is listed more than once in ecrRepositories`);
+    }
+    const repo = createAppRepository(platformName, app, { ...inputs.tags, App: app }, undefined, settings);
+    repositoryUrls[app] = repo.repositoryUrl;
+    repositoryArns[app] = repo.repositoryArn;
+  }
+
+  const repositoryName = (c: EcrRepositoryConfig) => `${platformName}/${c.app}`;
+  const scanning = (c: EcrRepositoryConfig) => c.scanning ?? defaultRepositorySettings.scanning;
+  const enhanced = inputs.repositories.filter((c) => scanning(c) === "enhanced");
+  const onPush = inputs.repositories.filter((c) => scanning(c) === "scan-on-push");
+
+  if (enhanced.length > 0) {
+    const rule = (scanFrequency: string, repos: EcrRepositoryConfig[]) => ({
+      scanFrequency,
+      repositoryFilters: repos.map((c) => ({ filter: repositoryName(c), filterType: "WILDCARD" })),
+    });
+
+    new aws.ecr.RegistryScanningConfiguration(`${platformName}-ecr-scanning`, {
+      scanType: "ENHANCED",
+      rules: [
+        rule("CONTINUOUS_SCAN", enhanced),
+        ...(onPush.length > 0 ? [rule("SCAN_ON_PUSH", onPush)] : []),
+      ],
+    });
+  }
+
+  return { repositoryUrls, repositoryArns };
 }
@@ -1,26 +1,54 @@
 import * as pulumi from "@pulumi/pulumi";
 import * as aws from "@pulumi/aws";
 
+import { EnvironmentProfile } from "./environment";
+
 export interface EcsOutputs {
   clusterArn: pulumi.Output<string>;
   clusterName: pulumi.Output<string>;
   taskExecutionRoleArn: pulumi.Output<string>;
   taskRoleArn: pulumi.Output<string>;
+  // Service Connect namespace (optional)
+  serviceConnectNamespaceId?: pulumi.Output<string>;
+  serviceConnectNamespaceArn?: pulumi.Output<string>;
+  serviceConnectNamespaceName?: string;
+}
+
+// Cloud Map private DNS namespace used as the cluster's Service Connect
+// default, so apps can call each other as <app>.<namespace> inside the VPC
+export interface EcsServiceConnectInputs {
+  vpcId: pulumi.Output<string>;
+  namespaceName?: string;
 }
 
 export function createEcsCluster(
   name: string,
-  tags: { [key: string]: string }
+  tags: { [key: string]: string },
+  profile: EnvironmentProfile,
+  serviceConnect?: EcsServiceConnectInputs
 ): EcsOutputs {
+  let namespace: aws.servicediscovery.PrivateDnsNamespace | undefined;
+  let namespaceName: string | undefined;
+  if (serviceConnect) {
+    namespaceName = serviceConnect.namespaceName ?? "internal";
+    namespace = new aws.servicediscovery.PrivateDnsNamespace(`${name}-namespace`, {
+      name: namespaceName,
+      description: "Service Connect namespace for apps on the shared cluster",
+      vpc: serviceConnect.vpcId,
+      tags,
+    });
+  }
+
   // ECS Cluster
   const cluster = new aws.ecs.Cluster(`${name}-cluster`, {
     name: `${name}-cluster`,
     settings: [
       {
         name: "containerInsights",
-        value: "disabled", // Enable for prod if needed (adds cost)
+        value: profile.containerInsights ? "enabled" : "disabled", // Adds cost
       },
     ],
+    serviceConnectDefaults: namespace ? { namespace: namespace.arn } : undefined,
     tags,
   });
 
@@ -42,6 +70,9 @@ export function createEcsCluster(
     ],
   });
 
+  // Shared roles below are kept for backward compatibility only - they let
+  // every app read every secret. New apps get per-app roles from createAppRoles (iam.ts).
+
   // Task execution role (for ECS to pull images, write logs)
   const taskExecutionRole = new aws.iam.Role(`${name}-task-execution-role`, {
     assumeRolePolicy: JSON.stringify({
@@ -120,5 +151,8 @@ export function createEcsCluster(
     clusterName: cluster.name,
     taskExecutionRoleArn: taskExecutionRole.arn,
     taskRoleArn: taskRole.arn,
+    serviceConnectNamespaceId: namespace?.id,
+    serviceConnectNamespaceArn: namespace?.arn,
+    serviceConnectNamespaceName: namespaceName,
   };
 }
@@ -0,0 +1,111 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as aws from "@pulumi/aws";
+
+// VPC endpoints - let tasks in private subnets pull images, read secrets and
+// ship logs without a NAT. S3 is a free gateway endpoint (ECR image layers
+// live in S3); everything else is an interface endpoint billed per AZ.
+
+export type VpcEndpointService =
+  | "s3"
+  | "ecr.api"
+  | "ecr.dkr"
+  | "logs"
+  | "secretsmanager"
+  | "ssm"
+  | "sts";
+
+export const defaultVpcEndpointServices: VpcEndpointService[] = [
+  "s3",
+  "ecr.api",
+  "ecr.dkr",
+  "logs",
+  "secretsmanager",
+  "ssm",
+  "sts",
+];
+
+export interface VpcEndpointsInputs {
+  vpcId: pulumi.Output<string>;
+  subnetIds: pulumi.Output<string>[];
+  routeTableIds: pulumi.Output<string>[];
+  allowedSecurityGroupIds: pulumi.Output<string>[];
+  services?: VpcEndpointService[];
+  tags: { [key: string]: string };
+}
+
+export interface VpcEndpointsOutputs {
+  endpointIds: { [service: string]: pulumi.Output<string> };
+  securityGroupId: pulumi.Output<string>;
+}
+
+export function createVpcEndpoints(name: string, inputs: VpcEndpointsInputs): VpcEndpointsOutputs {
+  const services = inputs.services ?? defaultVpcEndpointServices;
+
+  const unknown = services.filter((s) => !defaultVpcEndpointServices.includes(s));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown VPC endpoint service(s): ${unknown.join(", ")}; ` +
+        `expected any of: ${defaultVpcEndpointServices.join(", ")}`
+    );
+  }
+
+  const region = aws.getRegionOutput().name;
+
+  // Security group for interface endpoints - HTTPS from the VPC default SG
+  const endpointSg = new aws.ec2.SecurityGroup(`${name}-endpoints-sg`, {
+    vpcId: inputs.vpcId,
+    description: "Security group for VPC interface endpoints",
+    ingress: inputs.allowedSecurityGroupIds.map((sgId) => ({
+      protocol: "tcp",
+      fromPort: 443,
+      toPort: 443,
+      securityGroups: [sgId],
+      description: "HTTPS from VPC workloads",
+    })),
+    egress: [
+      {
+        protocol: "-1",
+        fromPort: 0,
+        toPort: 0,
+        cidrBlocks: ["0.0.0.0/0"],
+      },
+    ],
+    tags: { ...inputs.tags, Name: `${name}-endpoints-sg` },
+  });
+
+  const endpointIds: { [service: string]: pulumi.Output<string> } = {};
+
+  for (const service of services) {
+    const resourceName = `${name}-vpce-${service.replace(/\./g, "-")}`;
+    const serviceName = pulumi.interpolate`com.amazonaws.${region}.${service}`;
+
+    if (service === "s3") {
+      // Gateway endpoint - attached to the private route tables
+      const endpoint = new aws.ec2.VpcEndpoint(resourceName, {
+        vpcId: inputs.vpcId,
+        serviceName,
+        vpcEndpointType: "Gateway",
+        routeTableIds: inputs.routeTableIds,
+        tags: { ...inputs.tags, Name: resourceName },
+      });
+      endpointIds[service] = endpoint.id;
+      continue;
+    }
+
+    const endpoint = new aws.ec2.VpcEndpoint(resourceName, {
+      vpcId: inputs.vpcId,
+      serviceName,
+      vpcEndpointType: "Interface",
+      subnetIds: inputs.subnetIds,
+      securityGroupIds: [endpointSg.id],
+      privateDnsEnabled: true,
+      tags: { ...inputs.tags, Name: resourceName },
+    });
+    endpointIds[service] = endpoint.id;
+  }
+
+  return {
+    endpointIds,
+    securityGroupId: endpointSg.id,
+  };
+}
@@ -0,0 +1,116 @@
+import * as pulumi from "@pulumi/pulumi";
+
+// Environment profiles - prod-hardening defaults keyed off the `environment`
+// config value. Every setting can still be overridden per stack in
+// Pulumi.<stack>.yaml using the config key of the same name.
+
+export type EnvironmentName = "dev" | "staging" | "prod";
+
+// CloudWatch alarm thresholds (monitoring.ts). Individual keys can be
+// overridden with the `alarmThresholds` config object.
+export interface AlarmThresholds {
+  alb5xxPerFiveMinutes: number;
+  albTargetResponseTimeSeconds: number;
+  dbCpuPercent: number;
+  dbFreeStorageGb: number;
+  dbConnections: number;
+}
+
+export interface EnvironmentProfile {
+  name: EnvironmentName;
+  albDeletionProtection: boolean;
+  dbDeletionProtection: boolean;
+  dbSkipFinalSnapshot: boolean;
+  dbBackupRetentionDays: number;
+  dbPerformanceInsights: boolean;
+  containerInsights: boolean;
+  logRetentionDays: number;
+  // Monthly AWS Budget for the environment (cost.ts)
+  monthlyBudgetUsd: number;
+  alarmThresholds: AlarmThresholds;
+}
+
+const profiles: { [K in EnvironmentName]: Omit<EnvironmentProfile, "name"> } = {
+  dev: {
+    albDeletionProtection: false,
+    dbDeletionProtection: false,
+    dbSkipFinalSnapshot: true,
+    dbBackupRetentionDays: 1,
+    dbPerformanceInsights: false,
+    containerInsights: false,
+    logRetentionDays: 3,
+    monthlyBudgetUsd: 20,
+    alarmThresholds: {
+      alb5xxPerFiveMinutes: 50,
+      albTargetResponseTimeSeconds: 5,
+      dbCpuPercent: 90,
+      dbFreeStorageGb: 2,
+      dbConnections: 80,
+    },
+  },
+  staging: {
+    albDeletionProtection: false,
+    dbDeletionProtection: false,
+    dbSkipFinalSnapshot: false,
+    dbBackupRetentionDays: 3,
+    dbPerformanceInsights: false,
+    containerInsights: false,
+    logRetentionDays: 14,
+    monthlyBudgetUsd: 40,
+    alarmThresholds: {
+      alb5xxPerFiveMinutes: 25,
+      albTargetResponseTimeSeconds: 3,
+      dbCpuPercent: 85,
+      dbFreeStorageGb: 3,
+      dbConnections: 80,
+    },
+  },
+  prod: {
+    albDeletionProtection: true,
+    dbDeletionProtection: true,
+    dbSkipFinalSnapshot: false,
+    dbBackupRetentionDays: 7,
+    dbPerformanceInsights: true,
+    containerInsights: true,
+    logRetentionDays: 30,
+    monthlyBudgetUsd: 100,
+    alarmThresholds: {
+      alb5xxPerFiveMinutes: 10,
+      albTargetResponseTimeSeconds: 2,
+      dbCpuPercent: 80,
+      dbFreeStorageGb: 5,
+      dbConnections: 150,
+    },
+  },
+};
+
+function isEnvironmentName(value: string): value is EnvironmentName {
+  return Object.prototype.hasOwnProperty.call(profiles, value);
+}
+
+export function resolveEnvironmentProfile(config: pulumi.Config): EnvironmentProfile {
+  const environment = config.require("environment");
+  if (!isEnvironmentName(environment)) {
+    throw new Error(
+      `Unknown environment "${environment}"; expected one of: ${Object.keys(profiles).join(", ")}`
+    );
+  }
+
+  const defaults = profiles[environment];
+
+  return {
+    name: environment,
+    albDeletionProtection: config.getBoolean("albDeletionProtection") ?? defaults.albDeletionProtection,
+    dbDeletionProtection: config.getBoolean("dbDeletionProtection") ?? defaults.dbDeletionProtection,
+    dbSkipFinalSnapshot: config.getBoolean("dbSkipFinalSnapshot") ?? defaults.dbSkipFinalSnapshot,
+    dbBackupRetentionDays: config.getNumber("dbBackupRetentionDays") ?? defaults.dbBackupRetentionDays,
+    dbPerformanceInsights: config.getBoolean("dbPerformanceInsights") ?? defaults.dbPerformanceInsights,
+    containerInsights: config.getBoolean("containerInsights") ?? defaults.containerInsights,
+    logRetentionDays: config.getNumber("logRetentionDays") ?? defaults.logRetentionDays,
+    monthlyBudgetUsd: config.getNumber("monthlyBudgetUsd") ?? defaults.monthlyBudgetUsd,
+    alarmThresholds: {
+      ...defaults.alarmThresholds,
+      ...config.getObject<Partial<AlarmThresholds>>("alarmThresholds"),
+    },
+  };
+}
@@ -0,0 +1,737 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as aws from "@pulumi/aws";
+import { normalizeHost } from "./routing";
+
+// GitHub Actions OIDC - deploy roles that workflows assume with
+// aws-actions/configure-aws-credentials instead of long-lived access keys.
+//
+// Every repo gets two roles: a deploy role trusted only from the deploy branch,
+// and a read-only preview role trusted from pull requests. Jobs that set a
+// GitHub `environment:` present a different subject and can't assume either.
+//
+// App deploy roles can only create roles under the platform's app permissions
+// boundary, so an app repo can't mint a role with more access than an app
+// task should ever have.
+
+const githubTokenHost = "token.actions.githubusercontent.com";
+
+export interface GithubAppRepo {
+  app: string;
+  // owner/repo
+  repo: string;
+  // DNS names the app's deploy role may change - bare subdomains of the
+  // platform domain or full hostnames. Defaults to the app name.
+  hostnames?: string[];
+}
+
+export interface GithubOidcInputs {
+  // owner/repo of this platform repository
+  platformRepo: string;
+  appRepos: GithubAppRepo[];
+  // The provider is account-wide - reuse one another stack already created
+  existingProviderArn?: string;
+  deployBranch?: string;
+  clusterName: pulumi.Output<string>;
+  httpsListenerArn: pulumi.Output<string>;
+  hostedZoneId: pulumi.Output<string>;
+  domainName: string;
+  // Secrets the platform manages outside the `${name}/` prefix
+  secretNames?: string[];
+  tags: { [key: string]: string };
+}
+
+export interface GithubOidcOutputs {
+  providerArn: pulumi.Output<string>;
+  platformDeployRoleArn: pulumi.Output<string>;
+  platformPreviewRoleArn: pulumi.Output<string>;
+  appDeployRoleArns: { [app: string]: pulumi.Output<string> };
+  appPreviewRoleArns: { [app: string]: pulumi.Output<string> };
+  appPermissionsBoundaryArn: pulumi.Output<string>;
+}
+
+// Ceiling for every role an app deploy role creates: pulling images, writing
+// logs, reading config and secrets, and the data-plane APIs apps call. Task
+// policy statements beyond this have no effect.
+const appBoundaryActions = [
+  "ecr:GetAuthorizationToken",
+  "ecr:BatchCheckLayerAvailability",
+  "ecr:BatchGetImage",
+  "ecr:GetDownloadUrlForLayer",
+  "logs:CreateLogStream",
+  "logs:PutLogEvents",
+  "secretsmanager:GetSecretValue",
+  "secretsmanager:DescribeSecret",
+  "ssm:GetParameter",
+  "ssm:GetParameters",
+  "ssm:GetParametersByPath",
+  "kms:Decrypt",
+  "kms:GenerateDataKey",
+  "ssmmessages:*", // ECS Exec
+  "s3:GetObject",
+  "s3:PutObject",
+  "s3:DeleteObject",
+  "s3:ListBucket",
+  "sqs:SendMessage",
+  "sqs:ReceiveMessage",
+  "sqs:DeleteMessage",
+  "sqs:ChangeMessageVisibility",
+  "sqs:GetQueueUrl",
+  "sqs:GetQueueAttributes",
+  "sns:Publish",
+  "dynamodb:GetItem",
+  "dynamodb:BatchGetItem",
+  "dynamodb:Query",
+  "dynamodb:Scan",
+  "dynamodb:PutItem",
+  "dynamodb:UpdateItem",
+  "dynamodb:DeleteItem",
+  "dynamodb:BatchWriteItem",
+  "dynamodb:ConditionCheckItem",
+  "dynamodb:DescribeTable",
+  "ses:SendEmail",
+  "ses:SendRawEmail",
+  "cloudwatch:PutMetricData",
+  "xray:PutTraceSegments",
+  "xray:PutTelemetryRecords",
+];
+
+// What the platform preview role needs to preview and refresh the platform
+// stack - resource metadata only, no object, item or secret contents
+const platformReadActions = [
+  "acm:DescribeCertificate",
+  "acm:ListCertificates",
+  "acm:ListTagsForCertificate",
+  "application-autoscaling:Describe*",
+  "application-autoscaling:ListTagsForResource",
+  "autoscaling:Describe*",
+  "budgets:ViewBudget",
+  "budgets:ListTagsForResource",
+  "ce:GetAnomalyMonitors",
+  "ce:GetAnomalySubscriptions",
+  "ce:ListCostAllocationTags",
+  "ce:ListTagsForResource",
+  "cloudformation:DescribeStacks",
+  "cloudformation:GetTemplate",
+  "cloudwatch:DescribeAlarms",
+  "cloudwatch:GetDashboard",
+  "cloudwatch:ListTagsForResource",
+  "ec2:Describe*",
+  "ecr:DescribeRegistry",
+  "ecr:DescribeRepositories",
+  "ecr:GetLifecyclePolicy",
+  "ecr:GetRegistryScanningConfiguration",
+  "ecr:GetRepositoryPolicy",
+  "ecr:ListTagsForResource",
+  "ecs:Describe*",
+  "ecs:List*",
+  "elasticloadbalancing:Describe*",
+  "iam:GetInstanceProfile",
+  "iam:GetOpenIDConnectProvider",
+  "iam:GetPolicy",
+  "iam:GetPolicyVersion",
+  "iam:GetRole",
+  "iam:GetRolePolicy",
+  "iam:ListAttachedRolePolicies",
+  "iam:ListInstanceProfilesForRole",
+  "iam:ListPolicyVersions",
+  "iam:ListRolePolicies",
+  "lambda:GetFunctionConfiguration",
+  "lambda:GetFunctionCodeSigningConfig",
+  "lambda:ListTags",
+  "lambda:ListVersionsByFunction",
+  "logs:DescribeLogGroups",
+  "logs:DescribeMetricFilters",
+  "logs:ListTagsForResource",
+  "logs:ListTagsLogGroup",
+  "rds:Describe*",
+  "rds:ListTagsForResource",
+  "route53:GetChange",
+  "route53:GetHostedZone",
+  "route53:ListHostedZones",
+  "route53:ListResourceRecordSets",
+  "route53:ListTagsForResource",
+  "route53resolver:GetResolverEndpoint",
+  "route53resolver:ListResolverEndpointIpAddresses",
+  "route53resolver:ListTagsForResource",
+  "s3:GetAccelerateConfiguration",
+  "s3:GetBucket*",
+  "s3:GetEncryptionConfiguration",
+  "s3:GetLifecycleConfiguration",
+  "s3:GetReplicationConfiguration",
+  "s3:ListAllMyBuckets",
+  "scheduler:GetSchedule",
+  "scheduler:GetScheduleGroup",
+  "scheduler:ListTagsForResource",
+  "serverlessrepo:GetApplication",
+  "servicediscovery:GetNamespace",
+  "servicediscovery:ListTagsForResource",
+  "sns:GetSubscriptionAttributes",
+  "sns:GetTopicAttributes",
+  "sns:ListTagsForResource",
+  "wafv2:Get*",
+  "wafv2:List*",
+];
+
+function assumeRolePolicy(providerArn: pulumi.Input<string>, repo: string, subject: string) {
+  return pulumi.output(providerArn).apply((arn) =>
+    JSON.stringify({
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Effect: "Allow",
+          Principal: { Federated: arn },
+          Action: "sts:AssumeRoleWithWebIdentity",
+          Condition: {
+            StringEquals: {
+              [`${githubTokenHost}:aud`]: "sts.amazonaws.com",
+              [`${githubTokenHost}:sub`]: `repo:${repo}:${subject}`,
+            },
+          },
+        },
+      ],
+    })
+  );
+}
+
+export function createGithubOidc(name: string, inputs: GithubOidcInputs): GithubOidcOutputs {
+  const deployBranch = inputs.deployBranch ?? "main";
+  const accountId = aws.getCallerIdentityOutput().accountId;
+  const region = aws.getRegionOutput().name;
+
+  const repoPattern = /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
+  for (const repo of [inputs.platformRepo, ...inputs.appRepos.map((r) => r.repo)]) {
+    if (!repoPattern.test(repo)) {
+      throw new Error(`GitHub repository "${repo}" must be in owner/repo form`);
+    }
+  }
+
+  // App deploy roles are scoped by `${app}-*` name prefixes, so no app name may
+  // be a prefix of another app's name or overlap the platform's own names
+  const appPattern = /^[a-z][a-z0-9-]*[a-z0-9]$/;
+  const apps = inputs.appRepos.map((r) => r.app);
+  for (const app of apps) {
+    if (!appPattern.test(app)) {
+      throw new Error(`App name "${app}" must be lowercase letters, digits and hyphens`);
+    }
+    if (name.startsWith(app) || app.startsWith(name)) {
+      throw new Error(`App name "${app}" overlaps the platform name "${name}"`);
+    }
+    const overlapping = apps.find((other) => other !== app && other.startsWith(app));
+    if (overlapping) {
+      throw new Error(`App name "${app}" is a prefix of "${overlapping}" - their IAM scopes would overlap`);
+    }
+  }
+
+  const providerArn = inputs.existingProviderArn
+    ? pulumi.output(inputs.existingProviderArn)
+    : new aws.iam.OpenIdConnectProvider(`${name}-github-oidc`, {
+        url: `https://${githubTokenHost}`,
+        clientIdLists: ["sts.amazonaws.com"],
+        tags: inputs.tags,
+      }).arn;
+
+  const createRoles = (roleName: string, repo: string, readPolicy: aws.iam.PolicyDocument) => {
+    const deployRole = new aws.iam.Role(`${roleName}-deploy`, {
+      assumeRolePolicy: assumeRolePolicy(providerArn, repo, `ref:refs/heads/${deployBranch}`),
+      maxSessionDuration: 3600,
+      tags: { ...inputs.tags, Repository: repo },
+    });
+
+    const previewRole = new aws.iam.Role(`${roleName}-preview`, {
+      assumeRolePolicy: assumeRolePolicy(providerArn, repo, "pull_request"),
+      maxSessionDuration: 3600,
+      tags: { ...inputs.tags, Repository: repo },
+    });
+
+    new aws.iam.RolePolicy(`${roleName}-preview-read`, {
+      role: previewRole.id,
+      policy: readPolicy,
+    });
+
+    return { deployRole, previewRole };
+  };
+
+  // Platform repo - manages most services, but IAM only for its own resources
+  const platformSecretArns = [
+    pulumi.interpolate`arn:aws:secretsmanager:${region}:${accountId}:secret:${name}/*`,
+    ...(inputs.secretNames ?? []).map(
+      (secretName) => pulumi.interpolate`arn:aws:secretsmanager:${region}:${accountId}:secret:${secretName}-??????`
+    ),
+  ];
+  const platform = createRoles(`${name}-github-platform`, inputs.platformRepo, {
+    Version: "2012-10-17",
+    Statement: [
+      {
+        Sid: "PlatformRead",
+        Effect: "Allow",
+        Action: platformReadActions,
+        Resource: "*",
+      },
+      {
+        Sid: "PlatformSecretsRead",
+        Effect: "Allow",
+        Action: ["secretsmanager:DescribeSecret", "secretsmanager:GetResourcePolicy"],
+        Resource: platformSecretArns,
+      },
+    ],
+  });
+
+  new aws.iam.RolePolicyAttachment(`${name}-github-platform-poweruser`, {
+    role: platform.deployRole.name,
+    policyArn: "arn:aws:iam::aws:policy/PowerUserAccess",
+  });
+
+  new aws.iam.RolePolicy(`${name}-github-platform-iam`, {
+    role: platform.deployRole.id,
+    policy: {
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Sid: "PlatformIam",
+          Effect: "Allow",
+          Action: "iam:*",
+          Resource: [
+            pulumi.interpolate`arn:aws:iam::${accountId}:role/${name}-*`,
+            pulumi.interpolate`arn:aws:iam::${accountId}:instance-profile/${name}-*`,
+            pulumi.interpolate`arn:aws:iam::${accountId}:policy/${name}-*`,
+            pulumi.interpolate`arn:aws:iam::${accountId}:oidc-provider/${githubTokenHost}`,
+          ],
+        },
+        {
+          Sid: "ServiceLinkedRoles",
+          Effect: "Allow",
+          Action: "iam:CreateServiceLinkedRole",
+          Resource: "*",
+        },
+        {
+          // The platform's own GitHub roles match `${name}-*` too - without this
+          // the deploy role could rewrite its own policies. Changes to them are
+          // applied with admin credentials.
+          Sid: "DenyOwnRoles",
+          Effect: "Deny",
+          NotAction: ["iam:Get*", "iam:List*"],
+          Resource: pulumi.interpolate`arn:aws:iam::${accountId}:role/${name}-github-platform-*`,
+        },
+      ],
+    },
+  });
+
+  // Permissions boundary for the roles app repos create
+  const appBoundary = new aws.iam.Policy(`${name}-app-boundary`, {
+    name: `${name}-app-boundary`,
+    description: "Permissions boundary for roles created by app deploy roles",
+    policy: {
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Effect: "Allow",
+          Action: appBoundaryActions,
+          Resource: "*",
+        },
+      ],
+    },
+    tags: inputs.tags,
+  });
+
+  // App repos - push to their own repository and deploy their own service
+  const appDeployRoleArns: { [app: string]: pulumi.Output<string> } = {};
+  const appPreviewRoleArns: { [app: string]: pulumi.Output<string> } = {};
+
+  // Route53 normalizes record names to lowercase without the trailing dot
+  const normalizeHostname = (host: string) =>
+    normalizeHost(host.replace(/\.$/, ""), inputs.domainName.toLowerCase());
+
+  for (const { app, repo, hostnames: hosts } of inputs.appRepos) {
+    if (appDeployRoleArns[app]) {
+      throw new Error(`App "${app}" is listed more than once in githubAppRepos`);
+    }
+
+    const hostnames = (hosts ?? [app]).map(normalizeHostname);
+    if (hostnames.includes(normalizeHostname(inputs.domainName))) {
+      throw new Error(`App "${app}" cannot manage the apex record ${inputs.domainName}`);
+    }
+    const listenerRuleArns = inputs.httpsListenerArn.apply(
+      (arn) => `${arn.replace(":listener/", ":listener-rule/")}/*`
+    );
+    const hostedZoneArn = pulumi.interpolate`arn:aws:route53:::hostedzone/${inputs.hostedZoneId}`;
+    const appRoleArns = pulumi.interpolate`arn:aws:iam::${accountId}:role/${app}-*`;
+    // App-owned (portfolio/{app}) and platform-managed ({name}/{app}) repositories
+    const appRepositoryArn = pulumi.interpolate`arn:aws:ecr:${region}:${accountId}:repository/portfolio/${app}`;
+    const platformRepositoryArn = pulumi.interpolate`arn:aws:ecr:${region}:${accountId}:repository/${name}/${app}`;
+
+    // Preview and refresh of the app stack - its own service, repository,
+    // roles and DNS, plus describes that have no resource-level permissions
+    const readPolicy: aws.iam.PolicyDocument = {
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Sid: "AppRead",
+          Effect: "Allow",
+          Action: [
+            "application-autoscaling:DescribeScalableTargets",
+            "application-autoscaling:DescribeScheduledActions",
+            "application-autoscaling:DescribeScalingPolicies",
+            "ec2:DescribeSecurityGroups",
+            "ec2:DescribeSecurityGroupRules",
+            "ec2:DescribeVpcs",
+            "ecs:DescribeTaskDefinition",
+            "elasticloadbalancing:DescribeListeners",
+            "elasticloadbalancing:DescribeRules",
+            "elasticloadbalancing:DescribeTags",
+            "elasticloadbalancing:DescribeTargetGroups",
+            "elasticloadbalancing:DescribeTargetGroupAttributes",
+          ],
+          Resource: "*",
+        },
+        {
+          Sid: "AppServiceRead",
+          Effect: "Allow",
+          Action: ["ecs:DescribeServices", "ecs:ListTagsForResource"],
+          Resource: pulumi.interpolate`arn:aws:ecs:${region}:${accountId}:service/${inputs.clusterName}/${app}`,
+        },
+        {
+          Sid: "AppRepositoryRead",
+          Effect: "Allow",
+          Action: [
+            "ecr:DescribeRepositories",
+            "ecr:GetLifecyclePolicy",
+            "ecr:GetRepositoryPolicy",
+            "ecr:ListTagsForResource",
+          ],
+          Resource: [appRepositoryArn, platformRepositoryArn],
+        },
+        {
+          Sid: "AppRolesRead",
+          Effect: "Allow",
+          Action: [
+            "iam:GetRole",
+            "iam:GetRolePolicy",
+            "iam:ListRolePolicies",
+            "iam:ListAttachedRolePolicies",
+          ],
+          Resource: appRoleArns,
+        },
+        {
+          Sid: "AppScalingTagsRead",
+          Effect: "Allow",
+          Action: "application-autoscaling:ListTagsForResource",
+          Resource: pulumi.interpolate`arn:aws:application-autoscaling:${region}:${accountId}:scalable-target/*`,
+          Condition: {
+            StringEquals: { "aws:ResourceTag/App": app },
+          },
+        },
+        {
+          Sid: "DnsRead",
+          Effect: "Allow",
+          Action: ["route53:GetHostedZone", "route53:ListResourceRecordSets"],
+          Resource: hostedZoneArn,
+        },
+        {
+          Sid: "DnsChangesRead",
+          Effect: "Allow",
+          Action: "route53:GetChange",
+          Resource: "arn:aws:route53:::change/*",
+        },
+      ],
+    };
+
+    const roles = createRoles(`${name}-github-${app}`, repo, readPolicy);
+
+    new aws.iam.RolePolicy(`${name}-github-${app}-deploy-policy`, {
+      role: roles.deployRole.id,
+      policy: {
+        Version: "2012-10-17",
+        Statement: [
+          {
+            Sid: "EcrLogin",
+            Effect: "Allow",
+            Action: "ecr:GetAuthorizationToken",
+            Resource: "*",
+          },
+          {
+            Sid: "EcrRepository",
+            Effect: "Allow",
+            Action: "ecr:*",
+            Resource: appRepositoryArn,
+          },
+          {
+            // The platform owns this repository's settings - push and pull only
+            Sid: "EcrPlatformRepository",
+            Effect: "Allow",
+            Action: [
+              "ecr:BatchCheckLayerAvailability",
+              "ecr:BatchGetImage",
+              "ecr:CompleteLayerUpload",
+              "ecr:DescribeImages",
+              "ecr:GetDownloadUrlForLayer",
+              "ecr:InitiateLayerUpload",
+              "ecr:PutImage",
+              "ecr:UploadLayerPart",
+            ],
+            Resource: platformRepositoryArn,
+          },
+          {
+            Sid: "EcsService",
+            Effect: "Allow",
+            Action: "ecs:*",
+            Resource: pulumi.interpolate`arn:aws:ecs:${region}:${accountId}:service/${inputs.clusterName}/${app}`,
+          },
+          {
+            // No resource-level permissions for task definitions or describes
+            Sid: "EcsTaskDefinitions",
+            Effect: "Allow",
+            Action: [
+              "ecs:RegisterTaskDefinition",
+              "ecs:DeregisterTaskDefinition",
+              "ecs:DescribeTaskDefinition",
+              "ecs:ListTaskDefinitions",
+              "ecs:DescribeClusters",
+              "ecs:TagResource",
+            ],
+            Resource: "*",
+          },
+          {
+            // Per-app execution and task roles (iam.ts) - they must carry the
+            // app boundary and an App tag naming this app
+            Sid: "CreateAppRoles",
+            Effect: "Allow",
+            Action: "iam:CreateRole",
+            Resource: appRoleArns,
+            Condition: {
+              StringEquals: {
+                "iam:PermissionsBoundary": appBoundary.arn,
+                "aws:RequestTag/App": app,
+              },
+            },
+          },
+          {
+            Sid: "BoundedAppRoles",
+            Effect: "Allow",
+            Action: ["iam:PutRolePolicy", "iam:AttachRolePolicy", "iam:PutRolePermissionsBoundary"],
+            Resource: appRoleArns,
+            Condition: {
+              StringEquals: {
+                "iam:PermissionsBoundary": appBoundary.arn,
+                "aws:ResourceTag/App": app,
+              },
+            },
+          },
+          {
+            // Tags on new roles must name this app - later statements key on them
+            Sid: "TagNewAppRoles",
+            Effect: "Allow",
+            Action: "iam:TagRole",
+            Resource: appRoleArns,
+            Condition: {
+              StringEquals: { "aws:RequestTag/App": app },
+            },
+          },
+          {
+            Sid: "AppRoles",
+            Effect: "Allow",
+            Action: [
+              "iam:DeleteRole",
+              "iam:GetRole",
+              "iam:TagRole",
+              "iam:UntagRole",
+              "iam:UpdateAssumeRolePolicy",
+              "iam:GetRolePolicy",
+              "iam:DeleteRolePolicy",
+              "iam:DetachRolePolicy",
+              "iam:ListRolePolicies",
+              "iam:ListAttachedRolePolicies",
+              "iam:ListInstanceProfilesForRole",
+            ],
+            Resource: appRoleArns,
+            Condition: {
+              StringEquals: { "aws:ResourceTag/App": app },
+            },
+          },
+          {
+            Sid: "PassAppRoles",
+            Effect: "Allow",
+            Action: "iam:PassRole",
+            Resource: appRoleArns,
+            Condition: {
+              StringEquals: { "iam:PassedToService": "ecs-tasks.amazonaws.com" },
+            },
+          },
+          {
+            Sid: "CreateTargetGroups",
+            Effect: "Allow",
+            Action: "elasticloadbalancing:CreateTargetGroup",
+            Resource: pulumi.interpolate`arn:aws:elasticloadbalancing:${region}:${accountId}:targetgroup/${app}-*`,
+            Condition: {
+              StringEquals: { "aws:RequestTag/App": app },
+            },
+          },
+          {
+            Sid: "TagNewTargetGroups",
+            Effect: "Allow",
+            Action: "elasticloadbalancing:AddTags",
+            Resource: pulumi.interpolate`arn:aws:elasticloadbalancing:${region}:${accountId}:targetgroup/${app}-*`,
+            Condition: {
+              StringEquals: {
+                "elasticloadbalancing:CreateAction": "CreateTargetGroup",
+                "aws:RequestTag/App": app,
+              },
+            },
+          },
+          {
+            Sid: "TargetGroups",
+            Effect: "Allow",
+            Action: "elasticloadbalancing:*",
+            Resource: pulumi.interpolate`arn:aws:elasticloadbalancing:${region}:${accountId}:targetgroup/${app}-*`,
+            Condition: {
+              StringEquals: { "aws:ResourceTag/App": app },
+            },
+          },
+          {
+            // Rules on the shared HTTPS listener - the listener itself is off
+            // limits, and only rules tagged with this app can be changed
+            Sid: "CreateListenerRules",
+            Effect: "Allow",
+            Action: "elasticloadbalancing:CreateRule",
+            Resource: [inputs.httpsListenerArn, listenerRuleArns],
+            Condition: {
+              StringEquals: { "aws:RequestTag/App": app },
+            },
+          },
+          {
+            // Tags only as part of CreateRule - otherwise another app's rule
+            // could be retagged to this app and then modified or deleted
+            Sid: "TagNewListenerRules",
+            Effect: "Allow",
+            Action: "elasticloadbalancing:AddTags",
+            Resource: listenerRuleArns,
+            Condition: {
+              StringEquals: {
+                "elasticloadbalancing:CreateAction": "CreateRule",
+                "aws:RequestTag/App": app,
+              },
+            },
+          },
+          {
+            Sid: "ListenerRules",
+            Effect: "Allow",
+            Action: [
+              "elasticloadbalancing:ModifyRule",
+              "elasticloadbalancing:DeleteRule",
+              "elasticloadbalancing:SetRulePriorities",
+              "elasticloadbalancing:AddTags",
+              "elasticloadbalancing:RemoveTags",
+            ],
+            Resource: listenerRuleArns,
+            Condition: {
+              StringEquals: { "aws:ResourceTag/App": app },
+            },
+          },
+          {
+            Sid: "AppSecurityGroups",
+            Effect: "Allow",
+            Action: [
+              "ec2:DeleteSecurityGroup",
+              "ec2:AuthorizeSecurityGroupIngress",
+              "ec2:AuthorizeSecurityGroupEgress",
+              "ec2:RevokeSecurityGroupIngress",
+              "ec2:RevokeSecurityGroupEgress",
+              "ec2:CreateTags",
+            ],
+            Resource: "*",
+            Condition: {
+              StringEquals: { "aws:ResourceTag/App": app },
+            },
+          },
+          {
+            Sid: "CreateAppSecurityGroups",
+            Effect: "Allow",
+            Action: "ec2:CreateSecurityGroup",
+            Resource: "*",
+            Condition: {
+              StringEquals: { "aws:RequestTag/App": app },
+            },
+          },
+          {
+            // Tags only as part of CreateSecurityGroup - otherwise any group
+            // could be retagged to this app and picked up by AppSecurityGroups
+            Sid: "TagNewAppSecurityGroups",
+            Effect: "Allow",
+            Action: "ec2:CreateTags",
+            Resource: pulumi.interpolate`arn:aws:ec2:${region}:${accountId}:security-group/*`,
+            Condition: {
+              StringEquals: {
+                "ec2:CreateAction": "CreateSecurityGroup",
+                "aws:RequestTag/App": app,
+              },
+            },
+          },
+          {
+            Sid: "CreateSecurityGroupsInVpc",
+            Effect: "Allow",
+            Action: "ec2:CreateSecurityGroup",
+            Resource: pulumi.interpolate`arn:aws:ec2:${region}:${accountId}:vpc/*`,
+          },
+          {
+            // Only the app's own hostnames - not the apex or other apps
+            Sid: "DnsRecords",
+            Effect: "Allow",
+            Action: "route53:ChangeResourceRecordSets",
+            Resource: hostedZoneArn,
+            Condition: {
+              "ForAllValues:StringEquals": {
+                "route53:ChangeResourceRecordSetsNormalizedRecordNames": hostnames,
+              },
+            },
+          },
+          {
+            // Scheduled scaling of the app's own service. Registering a target
+            // also needs ecs:UpdateService on the service (EcsService above),
+            // so another app's service can't be registered.
+            Sid: "RegisterAppScaling",
+            Effect: "Allow",
+            Action: ["application-autoscaling:RegisterScalableTarget", "application-autoscaling:TagResource"],
+            Resource: pulumi.interpolate`arn:aws:application-autoscaling:${region}:${accountId}:scalable-target/*`,
+            Condition: {
+              StringEquals: { "aws:RequestTag/App": app },
+            },
+          },
+          {
+            Sid: "AppScaling",
+            Effect: "Allow",
+            Action: [
+              "application-autoscaling:RegisterScalableTarget",
+              "application-autoscaling:DeregisterScalableTarget",
+              "application-autoscaling:PutScheduledAction",
+              "application-autoscaling:DeleteScheduledAction",
+              "application-autoscaling:PutScalingPolicy",
+              "application-autoscaling:DeleteScalingPolicy",
+              "application-autoscaling:TagResource",
+              "application-autoscaling:UntagResource",
+            ],
+            Resource: pulumi.interpolate`arn:aws:application-autoscaling:${region}:${accountId}:scalable-target/*`,
+            Condition: {
+              StringEquals: { "aws:ResourceTag/App": app },
+            },
+          },
+        ],
+      },
+    });
+
+    new aws.iam.RolePolicy(`${name}-github-${app}-deploy-read`, {
+      role: roles.deployRole.id,
+      policy: readPolicy,
+    });
+
+    appDeployRoleArns[app] = roles.deployRole.arn;
+    appPreviewRoleArns[app] = roles.previewRole.arn;
+  }
+
+  return {
+    providerArn,
+    platformDeployRoleArn: platform.deployRole.arn,
+    platformPreviewRoleArn: platform.previewRole.arn,
+    appDeployRoleArns,
+    appPreviewRoleArns,
+    appPermissionsBoundaryArn: appBoundary.arn,
+  };
+}
@@ -0,0 +1,335 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as aws from "@pulumi/aws";
+
+// Off-hours hibernation for non-prod platforms. EventBridge Scheduler stops
+// and starts the database and the Tailscale router directly through its AWS
+// SDK targets. A small Lambda scales every ECS service in the cluster to zero
+// and back, recording each service's desired count in a tag so wake-up
+// restores it exactly.
+//
+// Services wake 15 minutes after the database so they don't crash-loop while
+// it starts. The next `pulumi up` during off-hours resets services to their
+// configured desired count.
+
+export interface HibernationInputs {
+  timezone: string;
+  // Hours (0-23) in the timezone above
+  sleepHour: number;
+  wakeHour: number;
+  // Stay asleep from Friday night until Monday morning
+  weekdaysOnly?: boolean;
+  clusterArn: pulumi.Output<string>;
+  clusterName: pulumi.Output<string>;
+  database?: HibernatedDatabase;
+  tailscale?: HibernatedTailscaleRouter;
+  logRetentionDays: number;
+  tags: { [key: string]: string };
+}
+
+export interface HibernatedDatabase {
+  // Aurora clusters are stopped as a whole
+  kind: "instance" | "cluster";
+  identifier: pulumi.Output<string>;
+}
+
+export interface HibernatedTailscaleRouter {
+  // Single router instance, or the Auto Scaling group in HA mode
+  instanceId?: pulumi.Output<string>;
+  autoScalingGroupName?: pulumi.Output<string>;
+  nodeCount: number;
+}
+
+export interface HibernationOutputs {
+  scheduleGroupName: pulumi.Output<string>;
+}
+
+const desiredCountTag = "hibernation:desired-count";
+
+const scaleServicesHandler = `
+const {
+  ECSClient,
+  paginateListServices,
+  DescribeServicesCommand,
+  UpdateServiceCommand,
+  TagResourceCommand,
+  UntagResourceCommand,
+} = require("@aws-sdk/client-ecs");
+
+const ecs = new ECSClient({});
+const TAG = "${desiredCountTag}";
+
+exports.handler = async (event) => {
+  const cluster = process.env.CLUSTER_ARN;
+  if (event.action !== "sleep" && event.action !== "wake") {
+    throw new Error("Unknown action: " + event.action);
+  }
+
+  const serviceArns = [];
+  for await (const page of paginateListServices({ client: ecs }, { cluster })) {
+    serviceArns.push(...page.serviceArns);
+  }
+
+  for (let i = 0; i < serviceArns.length; i += 10) {
+    const { services } = await ecs.send(
+      new DescribeServicesCommand({ cluster, services: serviceArns.slice(i, i + 10), include: ["TAGS"] })
+    );
+
+    for (const service of services) {
+      const saved = (service.tags || []).find((t) => t.key === TAG);
+
+      if (event.action === "sleep" && service.desiredCount > 0) {
+        // Record first, so a failed update can't lose the count
+        await ecs.send(new TagResourceCommand({
+          resourceArn: service.serviceArn,
+          tags: [{ key: TAG, value: String(service.desiredCount) }],
+        }));
+        await ecs.send(new UpdateServiceCommand({ cluster, service: service.serviceArn, desiredCount: 0 }));
+        console.log(service.serviceName + ": " + service.desiredCount + " -> 0");
+      } else if (event.action === "wake" && saved) {
+        const desiredCount = parseInt(saved.value, 10);
+        await ecs.send(new UpdateServiceCommand({ cluster, service: service.serviceArn, desiredCount }));
+        await ecs.send(new UntagResourceCommand({ resourceArn: service.serviceArn, tagKeys: [TAG] }));
+        console.log(service.serviceName + ": 0 -> " + desiredCount);
+      }
+    }
+  }
+};
+`;
+
+export function createHibernation(name: string, inputs: HibernationInputs): HibernationOutputs {
+  for (const [key, hour] of [["sleepHour", inputs.sleepHour], ["wakeHour", inputs.wakeHour]] as const) {
+    if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+      throw new Error(`Hibernation ${key} must be an hour from 0 to 23, got ${hour}`);
+    }
+  }
+  if (inputs.sleepHour === inputs.wakeHour) {
+    throw new Error("Hibernation sleepHour and wakeHour must differ");
+  }
+
+  const accountId = aws.getCallerIdentityOutput().accountId;
+  const region = aws.getRegionOutput().name;
+  const wakeDays = inputs.weekdaysOnly ? "MON-FRI" : "*";
+  const sleepDays = "*";
+
+  const group = new aws.scheduler.ScheduleGroup(`${name}-hibernation`, {
+    name: `${name}-hibernation`,
+    tags: inputs.tags,
+  });
+
+  // ECS scaling Lambda
+  const lambdaRole = new aws.iam.Role(`${name}-hibernation-lambda-role`, {
+    assumeRolePolicy: JSON.stringify({
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Action: "sts:AssumeRole",
+          Effect: "Allow",
+          Principal: { Service: "lambda.amazonaws.com" },
+        },
+      ],
+    }),
+    tags: inputs.tags,
+  });
+
+  new aws.iam.RolePolicyAttachment(`${name}-hibernation-lambda-basic`, {
+    role: lambdaRole.name,
+    policyArn: "arn:aws:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole",
+  });
+
+  new aws.iam.RolePolicy(`${name}-hibernation-lambda-policy`, {
+    role: lambdaRole.id,
+    policy: {
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Effect: "Allow",
+          Action: "ecs:ListServices",
+          Resource: "*",
+          Condition: {
+            ArnEquals: { "ecs:cluster": inputs.clusterArn },
+          },
+        },
+        {
+          Effect: "Allow",
+          Action: ["ecs:DescribeServices", "ecs:UpdateService", "ecs:TagResource", "ecs:UntagResource"],
+          Resource: pulumi.interpolate`arn:aws:ecs:${region}:${accountId}:service/${inputs.clusterName}/*`,
+        },
+      ],
+    },
+  });
+
+  const functionName = `${name}-hibernate-services`;
+
+  const lambdaLogGroup = new aws.cloudwatch.LogGroup(`${name}-hibernation-lambda-logs`, {
+    name: `/aws/lambda/${functionName}`,
+    retentionInDays: inputs.logRetentionDays,
+    tags: inputs.tags,
+  });
+
+  const scaleServices = new aws.lambda.Function(`${name}-hibernate-services`, {
+    name: functionName,
+    runtime: aws.lambda.Runtime.NodeJS20dX,
+    handler: "index.handler",
+    role: lambdaRole.arn,
+    timeout: 300,
+    code: new pulumi.asset.AssetArchive({
+      "index.js": new pulumi.asset.StringAsset(scaleServicesHandler),
+    }),
+    environment: {
+      variables: {
+        CLUSTER_ARN: inputs.clusterArn,
+      },
+    },
+    tags: inputs.tags,
+  }, { dependsOn: [lambdaLogGroup] });
+
+  // Scheduler role - one per platform, limited to the hibernated resources
+  const schedulerRole = new aws.iam.Role(`${name}-hibernation-scheduler-role`, {
+    assumeRolePolicy: accountId.apply((account) =>
+      JSON.stringify({
+        Version: "2012-10-17",
+        Statement: [
+          {
+            Action: "sts:AssumeRole",
+            Effect: "Allow",
+            Principal: { Service: "scheduler.amazonaws.com" },
+            Condition: {
+              StringEquals: { "aws:SourceAccount": account },
+            },
+          },
+        ],
+      })
+    ),
+    tags: inputs.tags,
+  });
+
+  const statements: aws.iam.PolicyStatement[] = [
+    {
+      Effect: "Allow",
+      Action: "lambda:InvokeFunction",
+      Resource: scaleServices.arn,
+    },
+  ];
+
+  const db = inputs.database;
+  if (db) {
+    statements.push(
+      db.kind === "cluster"
+        ? {
+            Effect: "Allow",
+            Action: ["rds:StopDBCluster", "rds:StartDBCluster"],
+            Resource: pulumi.interpolate`arn:aws:rds:${region}:${accountId}:cluster:${db.identifier}`,
+          }
+        : {
+            Effect: "Allow",
+            Action: ["rds:StopDBInstance", "rds:StartDBInstance"],
+            Resource: pulumi.interpolate`arn:aws:rds:${region}:${accountId}:db:${db.identifier}`,
+          }
+    );
+  }
+
+  const router = inputs.tailscale;
+  if (router?.autoScalingGroupName) {
+    statements.push({
+      Effect: "Allow",
+      Action: "autoscaling:UpdateAutoScalingGroup",
+      Resource: pulumi.interpolate`arn:aws:autoscaling:${region}:${accountId}:autoScalingGroup:*:autoScalingGroupName/${router.autoScalingGroupName}`,
+    });
+  } else if (router?.instanceId) {
+    statements.push({
+      Effect: "Allow",
+      Action: ["ec2:StopInstances", "ec2:StartInstances"],
+      Resource: pulumi.interpolate`arn:aws:ec2:${region}:${accountId}:instance/${router.instanceId}`,
+    });
+  }
+
+  new aws.iam.RolePolicy(`${name}-hibernation-scheduler-policy`, {
+    role: schedulerRole.id,
+    policy: {
+      Version: "2012-10-17",
+      Statement: statements,
+    },
+  });
+
+  const schedule = (
+    scheduleName: string,
+    description: string,
+    hour: number,
+    minute: number,
+    days: string,
+    target: { arn: pulumi.Input<string>; input: pulumi.Input<string> }
+  ) =>
+    new aws.scheduler.Schedule(`${name}-${scheduleName}`, {
+      name: `${name}-${scheduleName}`,
+      groupName: group.name,
+      description,
+      scheduleExpression: `cron(${minute} ${hour} ? * ${days} *)`,
+      scheduleExpressionTimezone: inputs.timezone,
+      flexibleTimeWindow: { mode: "OFF" },
+      target: {
+        arn: target.arn,
+        roleArn: schedulerRole.arn,
+        input: target.input,
+        retryPolicy: { maximumRetryAttempts: 3 },
+      },
+    });
+
+  // ECS services
+  schedule("sleep-services", "Scale ECS services to zero", inputs.sleepHour, 0, sleepDays, {
+    arn: scaleServices.arn,
+    input: JSON.stringify({ action: "sleep" }),
+  });
+  schedule("wake-services", "Restore ECS service desired counts", inputs.wakeHour, 15, wakeDays, {
+    arn: scaleServices.arn,
+    input: JSON.stringify({ action: "wake" }),
+  });
+
+  // Database
+  if (db) {
+    const operation = db.kind === "cluster" ? "DBCluster" : "DBInstance";
+    const input = db.identifier.apply((id) =>
+      JSON.stringify(db.kind === "cluster" ? { DbClusterIdentifier: id } : { DbInstanceIdentifier: id })
+    );
+
+    schedule("sleep-database", "Stop the shared database", inputs.sleepHour, 0, sleepDays, {
+      arn: `arn:aws:scheduler:::aws-sdk:rds:stop${operation}`,
+      input,
+    });
+    schedule("wake-database", "Start the shared database", inputs.wakeHour, 0, wakeDays, {
+      arn: `arn:aws:scheduler:::aws-sdk:rds:start${operation}`,
+      input,
+    });
+  }
+
+  // Tailscale router
+  if (router?.autoScalingGroupName) {
+    const groupSize = (size: number) =>
+      router.autoScalingGroupName!.apply((groupName) =>
+        JSON.stringify({ AutoScalingGroupName: groupName, MinSize: size, MaxSize: size, DesiredCapacity: size })
+      );
+
+    schedule("sleep-tailscale", "Scale the Tailscale routers to zero", inputs.sleepHour, 0, sleepDays, {
+      arn: "arn:aws:scheduler:::aws-sdk:autoscaling:updateAutoScalingGroup",
+      input: groupSize(0),
+    });
+    schedule("wake-tailscale", "Restore the Tailscale routers", inputs.wakeHour, 0, wakeDays, {
+      arn: "arn:aws:scheduler:::aws-sdk:autoscaling:updateAutoScalingGroup",
+      input: groupSize(router.nodeCount),
+    });
+  } else if (router?.instanceId) {
+    const input = router.instanceId.apply((id) => JSON.stringify({ InstanceIds: [id] }));
+
+    schedule("sleep-tailscale", "Stop the Tailscale router", inputs.sleepHour, 0, sleepDays, {
+      arn: "arn:aws:scheduler:::aws-sdk:ec2:stopInstances",
+      input,
+    });
+    schedule("wake-tailscale", "Start the Tailscale router", inputs.wakeHour, 0, wakeDays, {
+      arn: "arn:aws:scheduler:::aws-sdk:ec2:startInstances",
+      input,
+    });
+  }
+
+  return {
+    scheduleGroupName: group.name,
+  };
+}
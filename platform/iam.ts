@@ -0,0 +1,115 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as aws from "@pulumi/aws";
+
+// Per-app IAM roles - each app gets its own execution and task role instead of
+// the shared roles from createEcsCluster, so one app cannot read another's secrets.
+// App secrets live under the `${platformName}/${appName}/` prefix in Secrets Manager.
+
+export interface AppRolesInputs {
+  platformName: pulumi.Input<string>;
+  appName: string;
+  logGroupName: pulumi.Input<string>;
+  repositoryArn: pulumi.Input<string>;
+  // Secrets outside the app prefix the task still needs (e.g. the DB password)
+  additionalSecretArns?: pulumi.Input<pulumi.Input<string>[]>;
+  // Extra permissions for the application itself
+  taskPolicyStatements?: aws.iam.PolicyStatement[];
+  // Platform app boundary - required when deploying with a GitHub app deploy
+  // role. Omitted or empty leaves the roles without a boundary.
+  permissionsBoundaryArn?: pulumi.Input<string>;
+  tags: { [key: string]: pulumi.Input<string> };
+}
+
+export interface AppRolesOutputs {
+  executionRoleArn: pulumi.Output<string>;
+  taskRoleArn: pulumi.Output<string>;
+}
+
+const ecsTasksAssumeRolePolicy = JSON.stringify({
+  Version: "2012-10-17",
+  Statement: [
+    {
+      Action: "sts:AssumeRole",
+      Principal: {
+        Service: "ecs-tasks.amazonaws.com",
+      },
+      Effect: "Allow",
+    },
+  ],
+});
+
+export function createAppRoles(
+  name: string,
+  inputs: AppRolesInputs,
+  opts?: pulumi.CustomResourceOptions
+): AppRolesOutputs {
+  const accountId = aws.getCallerIdentityOutput().accountId;
+  const region = aws.getRegionOutput().name;
+
+  const secretPrefixArn = pulumi.interpolate`arn:aws:secretsmanager:${region}:${accountId}:secret:${inputs.platformName}/${inputs.appName}/*`;
+  const logStreamArn = pulumi.interpolate`arn:aws:logs:${region}:${accountId}:log-group:${inputs.logGroupName}:log-stream:${inputs.appName}/*`;
+
+  // Execution role (for ECS to pull this app's image, write its logs, read its secrets)
+  const executionRole = new aws.iam.Role(`${name}-execution-role`, {
+    assumeRolePolicy: ecsTasksAssumeRolePolicy,
+    permissionsBoundary: inputs.permissionsBoundaryArn,
+    tags: inputs.tags,
+  }, opts);
+
+  new aws.iam.RolePolicy(`${name}-execution-policy`, {
+    role: executionRole.name,
+    policy: {
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Effect: "Allow",
+          Action: ["ecr:GetAuthorizationToken"],
+          Resource: "*", // Not resource-scopable
+        },
+        {
+          Effect: "Allow",
+          Action: [
+            "ecr:BatchCheckLayerAvailability",
+            "ecr:BatchGetImage",
+            "ecr:GetDownloadUrlForLayer",
+          ],
+          Resource: inputs.repositoryArn,
+        },
+        {
+          Effect: "Allow",
+          Action: ["logs:CreateLogStream", "logs:PutLogEvents"],
+          Resource: logStreamArn,
+        },
+        {
+          Effect: "Allow",
+          Action: ["secretsmanager:GetSecretValue"],
+          Resource: pulumi
+            .all([secretPrefixArn, inputs.additionalSecretArns ?? []])
+            .apply(([prefixArn, extraArns]) => [prefixArn, ...extraArns]),
+        },
+      ],
+    },
+  }, opts);
+
+  // Task role (for the application to access AWS services)
+  const taskRole = new aws.iam.Role(`${name}-task-role`, {
+    assumeRolePolicy: ecsTasksAssumeRolePolicy,
+    permissionsBoundary: inputs.permissionsBoundaryArn,
+    tags: inputs.tags,
+  }, opts);
+
+  if (inputs.taskPolicyStatements && inputs.taskPolicyStatements.length > 0) {
+    new aws.iam.RolePolicy(`${name}-task-policy`, {
+      role: taskRole.name,
+      policy: {
+        Version: "2012-10-17",
+        Statement: inputs.taskPolicyStatements,
+      },
+    }, opts);
+  }
+
+  return {
+    executionRoleArn: executionRole.arn,
+    taskRoleArn: taskRole.arn,
+  };
+}
@@ -1,52 +1,194 @@
 import * as pulumi from "@pulumi/pulumi";
 import * as aws from "@pulumi/aws";
 
-import { createVpc } from "./vpc";
-import { createDns } from "./dns";
+import { createLogArchive } from "./logarchive";
+import { createVpc, EgressMode } from "./vpc";
+import { createVpcEndpoints, VpcEndpointService } from "./endpoints";
+import { createDns, AdditionalCertificate } from "./dns";
+import { createDnsRecords, DnsRecordSpec } from "./dnsrecords";
 import { createAlb } from "./alb";
+import { createWaf, ManagedRuleGroup } from "./waf";
+import { assignRoutePriorities, RouteRegistration } from "./routing";
 import { createEcsCluster } from "./ecs";
-import { createRds } from "./rds";
-import { createTailscaleSubnetRouter } from "./tailscale";
+import { createEcrRegistry, EcrRepositoryConfig } from "./ecr";
+import { createRds, DbEngineMode } from "./rds";
+import { createDbTenants } from "./dbtenants";
+import { createTailscaleSubnetRouter, TailscaleAuthMode } from "./tailscale";
+import { createSplitDns, SplitDnsMode } from "./splitdns";
+import { createMonitoring } from "./monitoring";
+import { createHibernation } from "./hibernation";
+import { canonicalTags, createCostGuardrails } from "./cost";
+import { createGithubOidc, GithubAppRepo } from "./githuboidc";
+import { PLATFORM_CONTRACT_VERSION } from "./contract";
+import { resolveEnvironmentProfile } from "./environment";
 
 // Configuration
 const config = new pulumi.Config();
-const environment = config.require("environment");
+const profile = resolveEnvironmentProfile(config);
+const environment = profile.name;
 const domainName = config.require("domainName");
+const manageCertificate = config.getBoolean("manageCertificate") ?? false;
+const certificateSans = config.getObject<string[]>("certificateSans");
+const additionalCertificates = config.getObject<AdditionalCertificate[]>("additionalCertificates");
+const dnsRecordSpecs = config.getObject<DnsRecordSpec[]>("dnsRecords") || [];
+const ecrRepositories = config.getObject<EcrRepositoryConfig[]>("ecrRepositories") || [];
+const githubPlatformRepo = config.get("githubPlatformRepo");
+const githubAppRepos = config.getObject<GithubAppRepo[]>("githubAppRepos") || [];
+const existingGithubOidcProviderArn = config.get("githubOidcProviderArn");
+const enableServiceConnect = config.getBoolean("enableServiceConnect") ?? false;
+const serviceConnectNamespace = config.get("serviceConnectNamespace");
 const enableSharedDatabase = config.getBoolean("enableSharedDatabase") ?? true;
 const dbInstanceClass = config.get("dbInstanceClass") || "db.t4g.micro";
 const dbAllocatedStorage = parseInt(config.get("dbAllocatedStorage") || "20");
+const dbEngineMode = (config.get("dbEngineMode") || "instance") as DbEngineMode;
+const dbMinCapacity = config.getNumber("dbMinCapacity");
+const dbMaxCapacity = config.getNumber("dbMaxCapacity");
+const dbReadReplicaCount = config.getNumber("dbReadReplicaCount");
+const dbPasswordRotationDays = config.getNumber("dbPasswordRotationDays");
+const dbTenantApps = config.getObject<string[]>("dbTenantApps") || [];
+const vpcCidr = config.get("vpcCidr") || "10.0.0.0/16";
+const azCount = config.getNumber("azCount") ?? 2;
+const subnetPrefixLength = config.getNumber("subnetPrefixLength") ?? 24;
+const enableDataSubnets = config.getBoolean("enableDataSubnets") ?? false;
+const egressMode = (config.get("egressMode") || "none") as EgressMode;
+const natInstanceType = config.get("natInstanceType") || "t4g.nano";
+const enableAlbAccessLogs = config.getBoolean("enableAlbAccessLogs") ?? false;
+const enableVpcFlowLogs = config.getBoolean("enableVpcFlowLogs") ?? false;
+const logArchiveExpirationDays = config.getNumber("logArchiveExpirationDays");
+const enableVpcEndpoints = config.getBoolean("enableVpcEndpoints") ?? false;
+const vpcEndpointServices = config.getObject<VpcEndpointService[]>("vpcEndpointServices");
 const enableTailscale = config.getBoolean("enableTailscale") ?? false;
+const tailscaleHaMode = config.getBoolean("tailscaleHaMode") ?? false;
+const tailscaleNodeCount = config.getNumber("tailscaleNodeCount");
+const tailscaleAuthMode = config.get("tailscaleAuthMode") as TailscaleAuthMode | undefined;
+const tailscaleTags = config.getObject<string[]>("tailscaleTags");
+const tailscaleSsh = config.getBoolean("tailscaleSsh") ?? false;
+const tailscaleEphemeral = config.getBoolean("tailscaleEphemeral");
+const tailscaleSplitDns = config.get("tailscaleSplitDns") as SplitDnsMode | undefined;
+const splitDnsExtraDomains = config.getObject<string[]>("splitDnsDomains");
+const albRouteRegistrations = config.getObject<RouteRegistration[]>("albRoutes") || [];
+const enableWaf = config.getBoolean("enableWaf") ?? false;
+const wafManagedRuleGroups = config.getObject<ManagedRuleGroup[]>("wafManagedRuleGroups");
+const wafRateLimit = config.getNumber("wafRateLimit");
+const wafAllowIps = config.getObject<string[]>("wafAllowIps");
+const wafDenyIps = config.getObject<string[]>("wafDenyIps");
+const enableHibernation = config.getBoolean("enableHibernation") ?? false;
+const hibernationTimezone = config.get("hibernationTimezone") || "America/New_York";
+const hibernationSleepHour = config.getNumber("hibernationSleepHour") ?? 22;
+const hibernationWakeHour = config.getNumber("hibernationWakeHour") ?? 7;
+const hibernationWeekdaysOnly = config.getBoolean("hibernationWeekdaysOnly") ?? true;
+const activateCostAllocationTags = config.getBoolean("activateCostAllocationTags") ?? false;
+const costAllocationTagsActive = config.getBoolean("costAllocationTagsActive") ?? activateCostAllocationTags;
+const anomalyThresholdUsd = config.getNumber("anomalyThresholdUsd");
+const enableMonitoring = config.getBoolean("enableMonitoring") ?? true;
+const alertEmails = config.getObject<string[]>("alertEmails") || [];
+// Cost alerts need someone to send them to
+const enableCostGuardrails = config.getBoolean("enableCostGuardrails") ?? alertEmails.length > 0;
 const tailscaleAuthKeySecretName = config.get("tailscaleAuthKeySecretName") || "portfolio/tailscale-auth-key";
 
 // Naming and tagging
 const projectName = "portfolio";
 const name = `${projectName}-${environment}`;
-const tags = {
-  Project: projectName,
-  Environment: environment,
-  ManagedBy: "pulumi",
-};
+const tags = canonicalTags(projectName, environment, "platform");
 
 // =============================================================================
 // Core Infrastructure
 // =============================================================================
 
+// Log archive bucket (ALB access logs, VPC flow logs)
+let logArchive: ReturnType<typeof createLogArchive> | undefined;
+
+if (enableAlbAccessLogs || enableVpcFlowLogs) {
+  logArchive = createLogArchive(name, {
+    expirationDays: logArchiveExpirationDays,
+    forceDestroy: profile.name === "dev",
+    tags,
+  });
+}
+
 // VPC and Networking
-const vpc = createVpc(name, tags);
+const vpc = createVpc(name, {
+  cidrBlock: vpcCidr,
+  azCount,
+  subnetPrefixLength,
+  enableDataSubnets,
+  egressMode,
+  natInstanceType,
+  flowLogsBucketArn: enableVpcFlowLogs ? logArchive?.bucketArn : undefined,
+  tags,
+});
+
+// VPC Endpoints (optional) - private subnet access to AWS APIs without NAT
+let endpoints: ReturnType<typeof createVpcEndpoints> | undefined;
+
+if (enableVpcEndpoints) {
+  endpoints = createVpcEndpoints(name, {
+    vpcId: vpc.vpcId,
+    subnetIds: vpc.privateSubnetIds,
+    routeTableIds: vpc.privateRouteTableIds,
+    allowedSecurityGroupIds: [vpc.defaultSecurityGroupId],
+    services: vpcEndpointServices,
+    tags,
+  });
+}
 
 // DNS and ACM Certificate
-const dns = createDns(name, { domainName, tags });
+const dns = createDns(name, {
+  domainName,
+  manageCertificate,
+  subjectAlternativeNames: certificateSans,
+  additionalCertificates,
+  tags,
+});
 
 // Application Load Balancer (with ACM certificate for HTTPS)
 const alb = createAlb(name, {
   vpcId: vpc.vpcId,
   publicSubnetIds: vpc.publicSubnetIds,
   certificateArn: dns.certificateArn,
+  additionalCertificateArns: dns.additionalCertificateArns,
+  profile,
+  accessLogsBucket: enableAlbAccessLogs ? logArchive?.bucketName : undefined,
   tags,
 });
 
+// Listener rule priorities for apps on the shared HTTPS listener
+const albRoutes = assignRoutePriorities(albRouteRegistrations, domainName);
+
+// Zone records from config (apex, www, email, verification TXT)
+const dnsRecords = createDnsRecords(name, {
+  hostedZoneId: dns.hostedZoneId,
+  domainName,
+  records: dnsRecordSpecs,
+  albDnsName: alb.albDnsName,
+  albZoneId: alb.albZoneId,
+});
+
+// WAF web ACL on the ALB (optional)
+let waf: ReturnType<typeof createWaf> | undefined;
+
+if (enableWaf) {
+  waf = createWaf(name, {
+    albArn: alb.albArn,
+    managedRuleGroups: wafManagedRuleGroups,
+    rateLimit: wafRateLimit,
+    allowIps: wafAllowIps,
+    denyIps: wafDenyIps,
+    logRetentionDays: profile.logRetentionDays,
+    tags,
+  });
+}
+
 // ECS Cluster
-const ecs = createEcsCluster(name, tags);
+const ecs = createEcsCluster(
+  name,
+  tags,
+  profile,
+  enableServiceConnect ? { vpcId: vpc.vpcId, namespaceName: serviceConnectNamespace } : undefined
+);
+
+// App container registries ({name}/{app}) from the ecrRepositories config
+const ecr = createEcrRegistry(name, { repositories: ecrRepositories, tags });
 
 // =============================================================================
 // Optional: Shared Database
@@ -57,10 +199,38 @@ let rds: ReturnType<typeof createRds> | undefined;
 if (enableSharedDatabase) {
   rds = createRds(name, {
     vpcId: vpc.vpcId,
-    subnetIds: vpc.privateSubnetIds,
+    subnetIds: enableDataSubnets ? vpc.dataSubnetIds : vpc.privateSubnetIds,
     allowedSecurityGroupIds: [vpc.defaultSecurityGroupId],
     instanceClass: dbInstanceClass,
     allocatedStorage: dbAllocatedStorage,
+    engineMode: dbEngineMode,
+    minCapacity: dbMinCapacity,
+    maxCapacity: dbMaxCapacity,
+    readReplicaCount: dbReadReplicaCount,
+    profile,
+    rotation: dbPasswordRotationDays
+      ? {
+          automaticallyAfterDays: dbPasswordRotationDays,
+          subnetIds: vpc.privateSubnetIds,
+          securityGroupIds: [vpc.defaultSecurityGroupId],
+        }
+      : undefined,
+    tags,
+  });
+}
+
+// Per-app databases and login roles on the shared instance
+let dbTenants: ReturnType<typeof createDbTenants> | undefined;
+
+if (rds && dbTenantApps.length > 0) {
+  dbTenants = createDbTenants(name, {
+    apps: dbTenantApps,
+    dbAddress: rds.dbAddress,
+    dbPort: rds.dbPort,
+    masterDbName: rds.dbName,
+    masterUsername: rds.dbUsername,
+    masterPassword: rds.dbMasterPassword,
+    dependsOn: [rds.dbResource],
     tags,
   });
 }
@@ -74,10 +244,152 @@ let tailscale: ReturnType<typeof createTailscaleSubnetRouter> | undefined;
 if (enableTailscale) {
   tailscale = createTailscaleSubnetRouter(name, {
     vpcId: vpc.vpcId,
-    subnetId: vpc.publicSubnetIds[0], // Place in first public subnet
-    advertisedRoutes: ["10.0.0.0/16"], // Entire VPC
+    vpcCidr: vpc.vpcCidr,
+    subnetIds: vpc.publicSubnetIds, // First public subnet, or all of them in HA mode
+    advertisedRoutes: [vpc.vpcCidr], // Entire VPC
     authKeySecretName: tailscaleAuthKeySecretName,
+    authMode: tailscaleAuthMode,
+    advertiseTags: tailscaleTags,
+    enableSsh: tailscaleSsh,
+    ephemeral: tailscaleEphemeral,
+    logRetentionDays: profile.logRetentionDays,
     instanceType: "t4g.nano",
+    haMode: tailscaleHaMode,
+    nodeCount: tailscaleNodeCount,
+    tags,
+  });
+}
+
+// Split DNS so tailnet clients resolve private AWS names through the router
+let splitDns: ReturnType<typeof createSplitDns> | undefined;
+
+if (tailscaleSplitDns) {
+  if (!tailscale) {
+    throw new Error("tailscaleSplitDns requires enableTailscale");
+  }
+  splitDns = createSplitDns(name, {
+    mode: tailscaleSplitDns,
+    vpcId: vpc.vpcId,
+    vpcCidrBlock: vpcCidr,
+    subnetIds: vpc.privateSubnetIds,
+    extraDomains: splitDnsExtraDomains,
+    tags,
+  });
+}
+
+// =============================================================================
+// Monitoring: alert topic, alarms and dashboard
+// =============================================================================
+
+let monitoring: ReturnType<typeof createMonitoring> | undefined;
+
+if (enableMonitoring) {
+  monitoring = createMonitoring(name, {
+    alertEmails,
+    thresholds: profile.alarmThresholds,
+    albArnSuffix: alb.albArnSuffix,
+    database: rds
+      ? {
+          dimensionName: rds.dbEngineMode === "aurora-serverless" ? "DBClusterIdentifier" : "DBInstanceIdentifier",
+          identifier: rds.dbIdentifier,
+          hasStorageMetric: rds.dbEngineMode !== "aurora-serverless",
+        }
+      : undefined,
+    tailscale: tailscale
+      ? {
+          instanceId: tailscale.autoScalingGroupName
+            ? undefined
+            : tailscale.instances.apply((instances) => instances[0].instanceId),
+          autoScalingGroupName: tailscale.autoScalingGroupName,
+          nodeCount: tailscale.nodeCount,
+          bootstrapFailureMetric: tailscale.bootstrapFailureMetric,
+          hibernates: enableHibernation,
+        }
+      : undefined,
+    tags,
+  });
+}
+
+// =============================================================================
+// Cost guardrails: budget, anomaly detection and cost-allocation tags
+// =============================================================================
+
+let cost: ReturnType<typeof createCostGuardrails> | undefined;
+
+if (enableCostGuardrails) {
+  cost = createCostGuardrails(name, {
+    environment,
+    monthlyBudgetUsd: profile.monthlyBudgetUsd,
+    anomalyThresholdUsd,
+    alertEmails,
+    alertTopicArn: monitoring?.alertTopicArn,
+    activateTags: activateCostAllocationTags,
+    tagsActive: costAllocationTagsActive,
+    tags,
+  });
+} else if (alertEmails.length === 0) {
+  pulumi.log.warn("No budget or cost anomaly alerts - set alertEmails to enable cost guardrails");
+}
+
+// =============================================================================
+// Optional: Off-hours hibernation (non-prod)
+// =============================================================================
+
+let hibernation: ReturnType<typeof createHibernation> | undefined;
+
+if (enableHibernation) {
+  if (environment === "prod") {
+    throw new Error("enableHibernation is not allowed in prod");
+  }
+  // RDS can't stop an instance that has read replicas
+  if (rds?.dbEngineMode === "instance-with-replicas") {
+    pulumi.log.warn("Hibernation skips the database: instances with read replicas can't be stopped");
+  }
+
+  hibernation = createHibernation(name, {
+    timezone: hibernationTimezone,
+    sleepHour: hibernationSleepHour,
+    wakeHour: hibernationWakeHour,
+    weekdaysOnly: hibernationWeekdaysOnly,
+    clusterArn: ecs.clusterArn,
+    clusterName: ecs.clusterName,
+    database:
+      rds && rds.dbEngineMode !== "instance-with-replicas"
+        ? {
+            kind: rds.dbEngineMode === "aurora-serverless" ? "cluster" : "instance",
+            identifier: rds.dbIdentifier,
+          }
+        : undefined,
+    tailscale: tailscale
+      ? {
+          instanceId: tailscale.autoScalingGroupName
+            ? undefined
+            : tailscale.instances.apply((instances) => instances[0].instanceId),
+          autoScalingGroupName: tailscale.autoScalingGroupName,
+          nodeCount: tailscale.nodeCount,
+        }
+      : undefined,
+    logRetentionDays: profile.logRetentionDays,
+    tags,
+  });
+}
+
+// =============================================================================
+// Optional: GitHub Actions OIDC deploy roles
+// =============================================================================
+
+let github: ReturnType<typeof createGithubOidc> | undefined;
+
+if (githubPlatformRepo) {
+  github = createGithubOidc(name, {
+    platformRepo: githubPlatformRepo,
+    appRepos: githubAppRepos,
+    existingProviderArn: existingGithubOidcProviderArn,
+    clusterName: ecs.clusterName,
+    httpsListenerArn: alb.httpsListenerArn,
+    hostedZoneId: dns.hostedZoneId,
+    domainName,
+    secretNames: enableTailscale ? [tailscaleAuthKeySecretName] : [],
     tags,
   });
 }
@@ -88,20 +400,31 @@ if (enableTailscale) {
 
 const logGroup = new aws.cloudwatch.LogGroup(`${name}-logs`, {
   name: `/ecs/${name}`,
-  retentionInDays: 3,
+  retentionInDays: profile.logRetentionDays,
   tags,
 });
 
 // =============================================================================
 // Exports - These are consumed by application stacks
+// Keep in sync with PlatformOutputs in contract.ts
 // =============================================================================
 
+// Contract version - app stacks refuse to deploy against a mismatched version
+export const platformContractVersion = PLATFORM_CONTRACT_VERSION;
+
 // VPC
 export const vpcId = vpc.vpcId;
+export const vpcCidrBlock = vpc.vpcCidr;
 export const publicSubnetIds = vpc.publicSubnetIds;
 export const privateSubnetIds = vpc.privateSubnetIds;
+export const dataSubnetIds = vpc.dataSubnetIds;
+export const privateRouteTableIds = vpc.privateRouteTableIds;
 export const defaultSecurityGroupId = vpc.defaultSecurityGroupId;
 
+// VPC Endpoints (optional)
+export const vpcEndpointIds = endpoints?.endpointIds;
+export const vpcEndpointSecurityGroupId = endpoints?.securityGroupId;
+
 // ALB
 export const albArn = alb.albArn;
 export const albDnsName = alb.albDnsName;
@@ -109,35 +432,81 @@ export const albZoneId = alb.albZoneId;
 export const httpListenerArn = alb.httpListenerArn;
 export const httpsListenerArn = alb.httpsListenerArn;
 export const albSecurityGroupId = alb.albSecurityGroupId;
+export { albRoutes };
+
+// WAF (optional)
+export const wafWebAclArn = waf?.webAclArn;
+export const wafLogGroupName = waf?.logGroupName;
 
 // DNS
 export const hostedZoneId = dns.hostedZoneId;
 export const certificateArn = dns.certificateArn;
+export const additionalCertificateArns = dns.additionalCertificateArns;
+export const dnsRecordNames = dnsRecords.recordNames;
 
 // ECS
 export const clusterArn = ecs.clusterArn;
 export const clusterName = ecs.clusterName;
+// Shared roles - kept for backward compatibility, new apps use per-app roles (iam.ts)
 export const taskExecutionRoleArn = ecs.taskExecutionRoleArn;
 export const taskRoleArn = ecs.taskRoleArn;
+export const serviceConnectNamespaceId = ecs.serviceConnectNamespaceId;
+export const serviceConnectNamespaceArn = ecs.serviceConnectNamespaceArn;
+export const serviceConnectNamespaceName = ecs.serviceConnectNamespaceName;
+
+// ECR - app name -> repository
+export const ecrRepositoryUrls = ecr.repositoryUrls;
+export const ecrRepositoryArns = ecr.repositoryArns;
 
 // Database (optional)
+export const dbEngine = rds?.dbEngineMode;
 export const dbEndpoint = rds?.dbEndpoint;
+export const dbReaderEndpoint = rds?.dbReaderEndpoint;
 export const dbPort = rds?.dbPort;
 export const dbName = rds?.dbName;
 export const dbUsername = rds?.dbUsername;
 export const dbPasswordSecretArn = rds?.dbPasswordSecretArn;
+export const dbConnectionSecretArn = rds?.dbConnectionSecretArn;
 export const dbSecurityGroupId = rds?.dbSecurityGroupId;
+export const dbTenantSecretArns = dbTenants?.connectionSecretArns;
 
 // Logs
 export const logGroupName = logGroup.name;
+export const logArchiveBucketName = logArchive?.bucketName;
+
+// Monitoring (optional)
+export const alertTopicArn = monitoring?.alertTopicArn;
+export const dashboardName = monitoring?.dashboardName;
+
+// Cost - app stacks reuse the canonical tags with their own App value
+export const costAllocationTags = tags;
+export const budgetName = cost?.budgetName;
+export const costAnomalyMonitorArn = cost?.anomalyMonitorArn;
+
+// Hibernation (optional)
+export const hibernationScheduleGroup = hibernation?.scheduleGroupName;
+
+// GitHub Actions deploy roles (optional)
+export const githubOidcProviderArn = github?.providerArn;
+export const githubPlatformDeployRoleArn = github?.platformDeployRoleArn;
+export const githubPlatformPreviewRoleArn = github?.platformPreviewRoleArn;
+export const githubAppDeployRoleArns = github?.appDeployRoleArns;
+export const githubAppPreviewRoleArns = github?.appPreviewRoleArns;
+export const appPermissionsBoundaryArn = github?.appPermissionsBoundaryArn;
 
 // Tailscale (optional)
-export const tailscaleInstanceId = tailscale?.instanceId;
-export const tailscalePrivateIp = tailscale?.privateIp;
-export const tailscalePublicIp = tailscale?.publicIp;
+// In HA mode the instances are a point-in-time snapshot - use the ASG name to
+// find the routers currently running
+export const tailscaleInstances = tailscale?.instances;
+export const tailscaleAutoScalingGroupName = tailscale?.autoScalingGroupName;
 export const tailscaleSecurityGroupId = tailscale?.securityGroupId;
 export const tailscaleAuthKeySecretArn = tailscale?.authKeySecretArn;
+export const tailscaleLogGroupName = tailscale?.logGroupName;
+// Tailscale split DNS: send these domains to these nameservers
+export const splitDnsResolverIps = splitDns?.resolverIps;
+export const splitDnsDomains = splitDns?.domains;
 
 // Metadata
 export { environment, domainName };
+export const platformName = name;
 export const region = aws.getRegionOutput().name;
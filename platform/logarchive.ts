@@ -0,0 +1,151 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as aws from "@pulumi/aws";
+
+// Log archive bucket - receives ALB access logs and VPC flow logs.
+// ALB access logs only support SSE-S3, so the bucket uses AES256.
+
+export interface LogArchiveInputs {
+  // Days before objects move to infrequent access / Glacier Instant Retrieval
+  transitionToIaDays?: number;
+  transitionToGlacierDays?: number;
+  expirationDays?: number;
+  forceDestroy?: boolean;
+  tags: { [key: string]: string };
+}
+
+export interface LogArchiveOutputs {
+  // Resolves only after the bucket policy exists, so log producers that use
+  // it can't start delivering before they are allowed to
+  bucketName: pulumi.Output<string>;
+  bucketArn: pulumi.Output<string>;
+}
+
+// Key prefixes inside the bucket
+export const albLogPrefix = "alb";
+export const vpcFlowLogPrefix = "vpc-flow-logs";
+
+export function createLogArchive(name: string, inputs: LogArchiveInputs): LogArchiveOutputs {
+  const transitionToIaDays = inputs.transitionToIaDays ?? 30;
+  const transitionToGlacierDays = inputs.transitionToGlacierDays ?? 90;
+  const expirationDays = inputs.expirationDays ?? 365;
+
+  if (!Number.isInteger(expirationDays) || expirationDays < 1) {
+    throw new Error(`Log archive expirationDays must be a positive whole number of days, got ${expirationDays}`);
+  }
+
+  // S3 rejects transitions on or after the expiration day - short retention
+  // just skips the colder storage classes
+  const transitions = [
+    { days: transitionToIaDays, storageClass: "STANDARD_IA" },
+    { days: transitionToGlacierDays, storageClass: "GLACIER_IR" },
+  ].filter((t) => t.days < expirationDays);
+
+  const bucket = new aws.s3.BucketV2(`${name}-log-archive`, {
+    bucketPrefix: `${name}-logs-`,
+    forceDestroy: inputs.forceDestroy ?? false,
+    tags: { ...inputs.tags, Name: `${name}-log-archive` },
+  });
+
+  new aws.s3.BucketPublicAccessBlock(`${name}-log-archive-pab`, {
+    bucket: bucket.id,
+    blockPublicAcls: true,
+    blockPublicPolicy: true,
+    ignorePublicAcls: true,
+    restrictPublicBuckets: true,
+  });
+
+  new aws.s3.BucketOwnershipControls(`${name}-log-archive-ownership`, {
+    bucket: bucket.id,
+    rule: {
+      objectOwnership: "BucketOwnerEnforced",
+    },
+  });
+
+  new aws.s3.BucketServerSideEncryptionConfigurationV2(`${name}-log-archive-sse`, {
+    bucket: bucket.id,
+    rules: [
+      {
+        applyServerSideEncryptionByDefault: {
+          sseAlgorithm: "AES256",
+        },
+      },
+    ],
+  });
+
+  new aws.s3.BucketLifecycleConfigurationV2(`${name}-log-archive-lifecycle`, {
+    bucket: bucket.id,
+    rules: [
+      {
+        id: "archive-and-expire",
+        status: "Enabled",
+        filter: {},
+        transitions,
+        expiration: {
+          days: expirationDays,
+        },
+      },
+    ],
+  });
+
+  // Bucket policy for ALB access logs and VPC flow log delivery
+  const accountId = aws.getCallerIdentityOutput().accountId;
+  const elbServiceAccount = aws.elb.getServiceAccountOutput();
+
+  const policy = new aws.s3.BucketPolicy(`${name}-log-archive-policy`, {
+    bucket: bucket.id,
+    policy: {
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Sid: "AlbAccessLogs",
+          Effect: "Allow",
+          Principal: { AWS: elbServiceAccount.arn },
+          Action: "s3:PutObject",
+          Resource: pulumi.interpolate`${bucket.arn}/${albLogPrefix}/AWSLogs/${accountId}/*`,
+        },
+        {
+          Sid: "VpcFlowLogsWrite",
+          Effect: "Allow",
+          Principal: { Service: "delivery.logs.amazonaws.com" },
+          Action: "s3:PutObject",
+          Resource: pulumi.interpolate`${bucket.arn}/${vpcFlowLogPrefix}/AWSLogs/${accountId}/*`,
+          Condition: {
+            StringEquals: {
+              "s3:x-amz-acl": "bucket-owner-full-control",
+              "aws:SourceAccount": accountId,
+            },
+          },
+        },
+        {
+          Sid: "VpcFlowLogsAclCheck",
+          Effect: "Allow",
+          Principal: { Service: "delivery.logs.amazonaws.com" },
+          Action: ["s3:GetBucketAcl", "s3:ListBucket"],
+          Resource: bucket.arn,
+          Condition: {
+            StringEquals: {
+              "aws:SourceAccount": accountId,
+            },
+          },
+        },
+        {
+          Sid: "DenyInsecureTransport",
+          Effect: "Deny",
+          Principal: "*",
+          Action: "s3:*",
+          Resource: [bucket.arn, pulumi.interpolate`${bucket.arn}/*`],
+          Condition: {
+            Bool: {
+              "aws:SecureTransport": "false",
+            },
+          },
+        },
+      ],
+    },
+  });
+
+  return {
+    bucketName: pulumi.all([bucket.bucket, policy.id]).apply(([bucketName]) => bucketName),
+    bucketArn: pulumi.all([bucket.arn, policy.id]).apply(([bucketArn]) => bucketArn),
+  };
+}
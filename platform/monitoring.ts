@@ -0,0 +1,300 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as aws from "@pulumi/aws";
+
+import { AlarmThresholds } from "./environment";
+
+// Platform monitoring - SNS alert topic, alarms on the shared ALB, database and
+// Tailscale router, and a CloudWatch dashboard. App stacks attach their own
+// alarms to the exported topic.
+
+export interface MonitoringInputs {
+  alertEmails: string[];
+  thresholds: AlarmThresholds;
+  albArnSuffix: pulumi.Output<string>;
+  database?: MonitoredDatabase;
+  tailscale?: MonitoredTailscaleRouter;
+  tags: { [key: string]: string };
+}
+
+export interface MonitoredTailscaleRouter {
+  // Single router instance, or the Auto Scaling group in HA mode
+  instanceId?: pulumi.Output<string>;
+  autoScalingGroupName?: pulumi.Output<string>;
+  nodeCount: number;
+  bootstrapFailureMetric: { namespace: string; metricName: string };
+  // Stopped every night by hibernation.ts - availability alarms would page each time
+  hibernates?: boolean;
+}
+
+export interface MonitoredDatabase {
+  // DBInstanceIdentifier for RDS instances, DBClusterIdentifier for Aurora
+  dimensionName: "DBInstanceIdentifier" | "DBClusterIdentifier";
+  identifier: pulumi.Output<string>;
+  // Aurora storage grows automatically and has no FreeStorageSpace metric
+  hasStorageMetric: boolean;
+}
+
+export interface MonitoringOutputs {
+  alertTopicArn: pulumi.Output<string>;
+  dashboardName: pulumi.Output<string>;
+}
+
+export function createMonitoring(name: string, inputs: MonitoringInputs): MonitoringOutputs {
+  const thresholds = inputs.thresholds;
+  const region = aws.getRegionOutput().name;
+
+  // Alert topic
+  const alertTopic = new aws.sns.Topic(`${name}-alerts`, {
+    name: `${name}-alerts`,
+    tags: inputs.tags,
+  });
+
+  inputs.alertEmails.forEach((email, i) => {
+    new aws.sns.TopicSubscription(`${name}-alerts-email-${i}`, {
+      topic: alertTopic.arn,
+      protocol: "email",
+      endpoint: email,
+    });
+  });
+
+  const alarmActions = {
+    alarmActions: [alertTopic.arn],
+    okActions: [alertTopic.arn],
+  };
+
+  // ALB - 5xx from the load balancer itself and from targets
+  new aws.cloudwatch.MetricAlarm(`${name}-alb-5xx`, {
+    name: `${name}-alb-5xx`,
+    alarmDescription: "ALB is returning 5xx responses",
+    namespace: "AWS/ApplicationELB",
+    metricName: "HTTPCode_ELB_5XX_Count",
+    dimensions: { LoadBalancer: inputs.albArnSuffix },
+    statistic: "Sum",
+    period: 300,
+    evaluationPeriods: 1,
+    threshold: thresholds.alb5xxPerFiveMinutes,
+    comparisonOperator: "GreaterThanThreshold",
+    treatMissingData: "notBreaching",
+    ...alarmActions,
+    tags: inputs.tags,
+  });
+
+  new aws.cloudwatch.MetricAlarm(`${name}-alb-target-5xx`, {
+    name: `${name}-alb-target-5xx`,
+    alarmDescription: "App targets behind the ALB are returning 5xx responses",
+    namespace: "AWS/ApplicationELB",
+    metricName: "HTTPCode_Target_5XX_Count",
+    dimensions: { LoadBalancer: inputs.albArnSuffix },
+    statistic: "Sum",
+    period: 300,
+    evaluationPeriods: 1,
+    threshold: thresholds.alb5xxPerFiveMinutes,
+    comparisonOperator: "GreaterThanThreshold",
+    treatMissingData: "notBreaching",
+    ...alarmActions,
+    tags: inputs.tags,
+  });
+
+  new aws.cloudwatch.MetricAlarm(`${name}-alb-latency`, {
+    name: `${name}-alb-latency`,
+    alarmDescription: "ALB target response time is high",
+    namespace: "AWS/ApplicationELB",
+    metricName: "TargetResponseTime",
+    dimensions: { LoadBalancer: inputs.albArnSuffix },
+    extendedStatistic: "p95",
+    period: 300,
+    evaluationPeriods: 3,
+    threshold: thresholds.albTargetResponseTimeSeconds,
+    comparisonOperator: "GreaterThanThreshold",
+    treatMissingData: "notBreaching",
+    ...alarmActions,
+    tags: inputs.tags,
+  });
+
+  // Database
+  const db = inputs.database;
+  if (db) {
+    const dimensions = { [db.dimensionName]: db.identifier };
+
+    new aws.cloudwatch.MetricAlarm(`${name}-db-cpu`, {
+      name: `${name}-db-cpu`,
+      alarmDescription: "Database CPU is high",
+      namespace: "AWS/RDS",
+      metricName: "CPUUtilization",
+      dimensions,
+      statistic: "Average",
+      period: 300,
+      evaluationPeriods: 3,
+      threshold: thresholds.dbCpuPercent,
+      comparisonOperator: "GreaterThanThreshold",
+      ...alarmActions,
+      tags: inputs.tags,
+    });
+
+    new aws.cloudwatch.MetricAlarm(`${name}-db-connections`, {
+      name: `${name}-db-connections`,
+      alarmDescription: "Database connection count is high",
+      namespace: "AWS/RDS",
+      metricName: "DatabaseConnections",
+      dimensions,
+      statistic: "Maximum",
+      period: 300,
+      evaluationPeriods: 2,
+      threshold: thresholds.dbConnections,
+      comparisonOperator: "GreaterThanThreshold",
+      ...alarmActions,
+      tags: inputs.tags,
+    });
+
+    if (db.hasStorageMetric) {
+      new aws.cloudwatch.MetricAlarm(`${name}-db-storage`, {
+        name: `${name}-db-storage`,
+        alarmDescription: "Database is running low on storage",
+        namespace: "AWS/RDS",
+        metricName: "FreeStorageSpace",
+        dimensions,
+        statistic: "Minimum",
+        period: 300,
+        evaluationPeriods: 1,
+        threshold: thresholds.dbFreeStorageGb * 1024 * 1024 * 1024,
+        comparisonOperator: "LessThanThreshold",
+        ...alarmActions,
+        tags: inputs.tags,
+      });
+    }
+  }
+
+  // Tailscale router
+  // Hibernating routers keep only the bootstrap alarm, which also catches a
+  // router that fails to come back in the morning
+  const tailscale = inputs.tailscale;
+  const availabilityAlarms = !tailscale?.hibernates;
+  if (availabilityAlarms && tailscale?.autoScalingGroupName) {
+    // The ASG replaces failed nodes itself - alert when it falls short
+    new aws.cloudwatch.MetricAlarm(`${name}-tailscale-nodes`, {
+      name: `${name}-tailscale-nodes`,
+      alarmDescription: "Fewer Tailscale subnet routers are in service than configured",
+      namespace: "AWS/AutoScaling",
+      metricName: "GroupInServiceInstances",
+      dimensions: { AutoScalingGroupName: tailscale.autoScalingGroupName },
+      statistic: "Minimum",
+      period: 60,
+      evaluationPeriods: 10,
+      threshold: tailscale.nodeCount,
+      comparisonOperator: "LessThanThreshold",
+      treatMissingData: "breaching",
+      ...alarmActions,
+      tags: inputs.tags,
+    });
+  } else if (availabilityAlarms && tailscale?.instanceId) {
+    new aws.cloudwatch.MetricAlarm(`${name}-tailscale-status`, {
+      name: `${name}-tailscale-status`,
+      alarmDescription: "Tailscale subnet router failed its EC2 status checks",
+      namespace: "AWS/EC2",
+      metricName: "StatusCheckFailed",
+      dimensions: { InstanceId: tailscale.instanceId },
+      statistic: "Maximum",
+      period: 60,
+      evaluationPeriods: 2,
+      threshold: 0,
+      comparisonOperator: "GreaterThanThreshold",
+      treatMissingData: "breaching",
+      ...alarmActions,
+      tags: inputs.tags,
+    });
+  }
+
+  if (tailscale) {
+    new aws.cloudwatch.MetricAlarm(`${name}-tailscale-bootstrap`, {
+      name: `${name}-tailscale-bootstrap`,
+      alarmDescription: "A Tailscale subnet router failed to bootstrap - check its log group",
+      namespace: tailscale.bootstrapFailureMetric.namespace,
+      metricName: tailscale.bootstrapFailureMetric.metricName,
+      statistic: "Sum",
+      period: 300,
+      evaluationPeriods: 1,
+      threshold: 0,
+      comparisonOperator: "GreaterThanThreshold",
+      treatMissingData: "notBreaching",
+      ...alarmActions,
+      tags: inputs.tags,
+    });
+  }
+
+  // Dashboard
+  const dashboard = new aws.cloudwatch.Dashboard(`${name}-dashboard`, {
+    dashboardName: `${name}-platform`,
+    dashboardBody: pulumi
+      .all([
+        region,
+        inputs.albArnSuffix,
+        db ? db.identifier : pulumi.output(""),
+        tailscale?.instanceId ?? pulumi.output(""),
+        tailscale?.autoScalingGroupName ?? pulumi.output(""),
+      ])
+      .apply(([awsRegion, albArnSuffix, dbIdentifier, tailscaleInstanceId, tailscaleGroupName]) => {
+        const widget = (title: string, metrics: unknown[][], stat = "Sum") => ({
+          type: "metric",
+          width: 12,
+          height: 6,
+          properties: { title, region: awsRegion, stat, period: 300, metrics },
+        });
+
+        const widgets = [
+          widget("ALB requests", [["AWS/ApplicationELB", "RequestCount", "LoadBalancer", albArnSuffix]]),
+          widget("ALB 5xx", [
+            ["AWS/ApplicationELB", "HTTPCode_ELB_5XX_Count", "LoadBalancer", albArnSuffix],
+            ["AWS/ApplicationELB", "HTTPCode_Target_5XX_Count", "LoadBalancer", albArnSuffix],
+          ]),
+          widget(
+            "ALB target response time (p95)",
+            [["AWS/ApplicationELB", "TargetResponseTime", "LoadBalancer", albArnSuffix]],
+            "p95"
+          ),
+        ];
+
+        if (db) {
+          widgets.push(
+            widget("Database CPU", [["AWS/RDS", "CPUUtilization", db.dimensionName, dbIdentifier]], "Average"),
+            widget(
+              "Database connections",
+              [["AWS/RDS", "DatabaseConnections", db.dimensionName, dbIdentifier]],
+              "Maximum"
+            )
+          );
+          if (db.hasStorageMetric) {
+            widgets.push(
+              widget("Database free storage", [["AWS/RDS", "FreeStorageSpace", db.dimensionName, dbIdentifier]], "Minimum")
+            );
+          }
+        }
+
+        if (tailscaleInstanceId) {
+          widgets.push(
+            widget(
+              "Tailscale router status checks",
+              [["AWS/EC2", "StatusCheckFailed", "InstanceId", tailscaleInstanceId]],
+              "Maximum"
+            )
+          );
+        }
+
+        if (tailscaleGroupName) {
+          widgets.push(
+            widget(
+              "Tailscale routers in service",
+              [["AWS/AutoScaling", "GroupInServiceInstances", "AutoScalingGroupName", tailscaleGroupName]],
+              "Minimum"
+            )
+          );
+        }
+
+        return JSON.stringify({ widgets });
+      }),
+  });
+
+  return {
+    alertTopicArn: alertTopic.arn,
+    dashboardName: dashboard.dashboardName,
+  };
+}
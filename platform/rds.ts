@@ -2,25 +2,82 @@ import * as pulumi from "@pulumi/pulumi";
 import * as aws from "@pulumi/aws";
 import * as random from "@pulumi/random";
 
+import { EnvironmentProfile } from "./environment";
+
 export interface RdsOutputs {
+  dbEngineMode: DbEngineMode;
+  // Instance identifier, or cluster identifier for Aurora
+  dbIdentifier: pulumi.Output<string>;
   dbEndpoint: pulumi.Output<string>;
+  dbAddress: pulumi.Output<string>;
+  // Read-only traffic; the writer endpoint when the mode has no readers
+  dbReaderEndpoint: pulumi.Output<string>;
   dbPort: pulumi.Output<number>;
   dbName: pulumi.Output<string>;
   dbUsername: pulumi.Output<string>;
   dbPasswordSecretArn: pulumi.Output<string>;
+  dbConnectionSecretArn: pulumi.Output<string>;
   dbSecurityGroupId: pulumi.Output<string>;
+  // Not exported from the stack - used to provision per-app databases
+  dbMasterPassword: pulumi.Output<string>;
+  dbResource: pulumi.CustomResource;
 }
 
+// How the shared database is deployed:
+// - instance: one RDS PostgreSQL instance
+// - aurora-serverless: Aurora PostgreSQL Serverless v2 cluster (scales between min/max ACUs)
+// - instance-with-replicas: one RDS instance plus a read replica
+export type DbEngineMode = "instance" | "aurora-serverless" | "instance-with-replicas";
+
+export const dbEngineModes: DbEngineMode[] = ["instance", "aurora-serverless", "instance-with-replicas"];
+
 export interface RdsInputs {
   vpcId: pulumi.Output<string>;
   subnetIds: pulumi.Output<string>[];
   allowedSecurityGroupIds: pulumi.Output<string>[];
   instanceClass: string;
   allocatedStorage: number;
+  engineMode?: DbEngineMode;
+  // aurora-serverless: capacity range in Aurora Capacity Units
+  minCapacity?: number;
+  maxCapacity?: number;
+  // instance-with-replicas: number of read replicas - only 1 is supported, since the
+  // contract exposes a single reader endpoint
+  readReplicaCount?: number;
+  profile: EnvironmentProfile;
+  rotation?: RdsRotationInputs;
   tags: { [key: string]: string };
 }
 
+// Password rotation via the AWS single-user rotation Lambda. The Lambda runs
+// in the VPC, so it needs a route to Secrets Manager (VPC endpoint or NAT) and
+// a security group the database accepts.
+export interface RdsRotationInputs {
+  automaticallyAfterDays: number;
+  subnetIds: pulumi.Output<string>[];
+  securityGroupIds: pulumi.Output<string>[];
+}
+
+interface DbWriter {
+  address: pulumi.Output<string>;
+  port: pulumi.Output<number>;
+  dbName: pulumi.Output<string>;
+  username: pulumi.Output<string>;
+  // Key and value identifying the database in the RDS secret JSON shape
+  identifierKey: "dbInstanceIdentifier" | "dbClusterIdentifier";
+  identifier: pulumi.Output<string>;
+  readerAddress: pulumi.Output<string>;
+  // What connections must wait for - for Aurora the writer instance, since the
+  // cluster accepts none until an instance exists
+  resource: pulumi.CustomResource;
+}
+
 export function createRds(name: string, inputs: RdsInputs): RdsOutputs {
+  const engineMode = inputs.engineMode ?? "instance";
+  if (!dbEngineModes.includes(engineMode)) {
+    throw new Error(`Unknown database engine mode "${engineMode}"; expected one of: ${dbEngineModes.join(", ")}`);
+  }
+
   // Subnet group
   const subnetGroup = new aws.rds.SubnetGroup(`${name}-subnet-group`, {
     subnetIds: inputs.subnetIds,
@@ -55,7 +112,8 @@ export function createRds(name: string, inputs: RdsInputs): RdsOutputs {
     overrideSpecial: "!#$%&*()-_=+[]{}<>:?",
   });
 
-  // Store password in Secrets Manager
+  // Store password in Secrets Manager (legacy bare-string secret - not
+  // updated by rotation, prefer the connection secret below)
   const dbSecret = new aws.secretsmanager.Secret(`${name}-db-secret`, {
     name: `${name}/db-password`,
     tags: inputs.tags,
@@ -66,7 +124,105 @@ export function createRds(name: string, inputs: RdsInputs): RdsOutputs {
     secretString: dbPassword.result,
   });
 
-  // RDS Instance
+  const writerArgs: DbWriterArgs = {
+    subnetGroupName: subnetGroup.name,
+    securityGroupId: dbSg.id,
+    password: dbPassword.result,
+  };
+  const writer = engineMode === "aurora-serverless"
+    ? createAuroraServerless(name, inputs, writerArgs)
+    : createPostgresInstance(name, inputs, writerArgs);
+
+  // Connection secret in the standard RDS JSON shape (used by the rotation Lambda)
+  const connectionSecret = new aws.secretsmanager.Secret(`${name}-db-connection-secret`, {
+    name: `${name}/db-connection`,
+    description: "Connection details for the shared PostgreSQL database",
+    tags: inputs.tags,
+  });
+
+  const connectionSecretVersion = new aws.secretsmanager.SecretVersion(`${name}-db-connection-secret-version`, {
+    secretId: connectionSecret.id,
+    secretString: pulumi
+      .all([writer.address, writer.port, writer.username, dbPassword.result, writer.dbName, writer.identifier])
+      .apply(([host, port, username, password, dbname, identifier]) =>
+        JSON.stringify({
+          engine: "postgres",
+          host,
+          port,
+          username,
+          password,
+          dbname,
+          [writer.identifierKey]: identifier,
+        })
+      ),
+  }, {
+    // Rotation writes new versions - keep Pulumi from reverting them
+    ignoreChanges: inputs.rotation ? ["secretString"] : [],
+  });
+
+  if (inputs.rotation) {
+    const region = aws.getRegionOutput().name;
+
+    // Single-user rotation Lambda from the Serverless Application Repository
+    const rotator = new aws.serverlessrepository.CloudFormationStack(`${name}-db-rotator`, {
+      name: `${name}-db-rotator`,
+      applicationId:
+        "arn:aws:serverlessrepo:us-east-1:297356227824:applications/SecretsManagerRDSPostgreSQLRotationSingleUser",
+      capabilities: ["CAPABILITY_IAM", "CAPABILITY_RESOURCE_POLICY"],
+      parameters: {
+        functionName: `${name}-db-rotator`,
+        endpoint: pulumi.interpolate`https://secretsmanager.${region}.amazonaws.com`,
+        vpcSubnetIds: pulumi.all(inputs.rotation.subnetIds).apply((ids) => ids.join(",")),
+        vpcSecurityGroupIds: pulumi.all(inputs.rotation.securityGroupIds).apply((ids) => ids.join(",")),
+      },
+      tags: inputs.tags,
+    });
+
+    new aws.secretsmanager.SecretRotation(`${name}-db-rotation`, {
+      secretId: connectionSecret.id,
+      rotationLambdaArn: rotator.outputs.apply((o) => o["RotationLambdaARN"]),
+      rotationRules: {
+        automaticallyAfterDays: inputs.rotation.automaticallyAfterDays,
+      },
+    }, {
+      // The first rotation runs immediately and has to reach the database
+      dependsOn: [writer.resource],
+    });
+  }
+
+  // With rotation on, the current master password lives only in the secret
+  const masterPassword = inputs.rotation
+    ? aws.secretsmanager
+        .getSecretVersionOutput({ secretId: connectionSecret.id }, { dependsOn: [connectionSecretVersion] })
+        .secretString.apply((json) => JSON.parse(json).password as string)
+    : dbPassword.result;
+
+  return {
+    dbEngineMode: engineMode,
+    dbIdentifier: writer.identifier,
+    // host:port, matching the RDS instance endpoint format apps already parse
+    dbEndpoint: pulumi.interpolate`${writer.address}:${writer.port}`,
+    dbAddress: writer.address,
+    dbReaderEndpoint: pulumi.interpolate`${writer.readerAddress}:${writer.port}`,
+    dbPort: pulumi.output(5432),
+    dbName: writer.dbName,
+    dbUsername: writer.username,
+    dbPasswordSecretArn: dbSecret.arn,
+    dbConnectionSecretArn: connectionSecret.arn,
+    dbSecurityGroupId: dbSg.id,
+    dbMasterPassword: pulumi.secret(masterPassword),
+    dbResource: writer.resource,
+  };
+}
+
+interface DbWriterArgs {
+  subnetGroupName: pulumi.Output<string>;
+  securityGroupId: pulumi.Output<string>;
+  password: pulumi.Output<string>;
+}
+
+// Single RDS instance, optionally with read replicas
+function createPostgresInstance(name: string, inputs: RdsInputs, args: DbWriterArgs): DbWriter {
   const db = new aws.rds.Instance(`${name}-postgres`, {
     identifier: `${name}-postgres`,
     engine: "postgres",
@@ -75,26 +231,109 @@ export function createRds(name: string, inputs: RdsInputs): RdsOutputs {
     allocatedStorage: inputs.allocatedStorage,
     dbName: "portfolio",
     username: "portfolio_admin",
-    password: dbPassword.result,
-    dbSubnetGroupName: subnetGroup.name,
-    vpcSecurityGroupIds: [dbSg.id],
+    password: args.password,
+    dbSubnetGroupName: args.subnetGroupName,
+    vpcSecurityGroupIds: [args.securityGroupId],
     publiclyAccessible: false,
-    skipFinalSnapshot: true, // Set to false for prod
-    deletionProtection: false, // Set to true for prod
-    backupRetentionPeriod: 1,
+    skipFinalSnapshot: inputs.profile.dbSkipFinalSnapshot,
+    finalSnapshotIdentifier: inputs.profile.dbSkipFinalSnapshot ? undefined : `${name}-postgres-final`,
+    deletionProtection: inputs.profile.dbDeletionProtection,
+    backupRetentionPeriod: inputs.profile.dbBackupRetentionDays,
     backupWindow: "03:00-04:00",
     maintenanceWindow: "Mon:04:00-Mon:05:00",
     storageEncrypted: true,
-    performanceInsightsEnabled: false, // Enable for prod if needed
+    performanceInsightsEnabled: inputs.profile.dbPerformanceInsights,
     tags: { ...inputs.tags, Name: `${name}-postgres` },
+  }, {
+    // Once rotation owns the password, don't reset it on every deploy
+    ignoreChanges: inputs.rotation ? ["password"] : [],
   });
 
+  // Read replicas - replication requires backups on the source. Apps only get
+  // DB_READER_HOST, so a second replica would never receive traffic.
+  const replicaCount = inputs.engineMode === "instance-with-replicas" ? inputs.readReplicaCount ?? 1 : 0;
+  if (inputs.engineMode === "instance-with-replicas" && replicaCount !== 1) {
+    throw new Error(`instance-with-replicas supports exactly 1 read replica, got ${replicaCount}`);
+  }
+  if (replicaCount > 0 && inputs.profile.dbBackupRetentionDays < 1) {
+    throw new Error("Read replicas require dbBackupRetentionDays of at least 1");
+  }
+
+  const replicas: aws.rds.Instance[] = [];
+  for (let i = 0; i < replicaCount; i++) {
+    replicas.push(new aws.rds.Instance(`${name}-postgres-replica-${i}`, {
+      identifier: `${name}-postgres-replica-${i}`,
+      replicateSourceDb: db.identifier,
+      instanceClass: inputs.instanceClass,
+      vpcSecurityGroupIds: [args.securityGroupId],
+      publiclyAccessible: false,
+      skipFinalSnapshot: true, // Replicas are rebuilt from the source
+      deletionProtection: inputs.profile.dbDeletionProtection,
+      storageEncrypted: true,
+      performanceInsightsEnabled: inputs.profile.dbPerformanceInsights,
+      tags: { ...inputs.tags, Name: `${name}-postgres-replica-${i}` },
+    }));
+  }
+
   return {
-    dbEndpoint: db.endpoint,
-    dbPort: pulumi.output(5432),
+    address: db.address,
+    port: db.port,
     dbName: db.dbName.apply((n) => n || "portfolio"),
-    dbUsername: db.username.apply((u) => u || "portfolio_admin"),
-    dbPasswordSecretArn: dbSecret.arn,
-    dbSecurityGroupId: dbSg.id,
+    username: db.username.apply((u) => u || "portfolio_admin"),
+    identifierKey: "dbInstanceIdentifier",
+    identifier: db.identifier,
+    readerAddress: replicas.length > 0 ? replicas[0].address : db.address,
+    resource: db,
+  };
+}
+
+// Aurora PostgreSQL Serverless v2 cluster with one writer instance
+function createAuroraServerless(name: string, inputs: RdsInputs, args: DbWriterArgs): DbWriter {
+  const cluster = new aws.rds.Cluster(`${name}-aurora`, {
+    clusterIdentifier: `${name}-aurora`,
+    engine: "aurora-postgresql",
+    engineMode: "provisioned",
+    engineVersion: "15.4",
+    databaseName: "portfolio",
+    masterUsername: "portfolio_admin",
+    masterPassword: args.password,
+    dbSubnetGroupName: args.subnetGroupName,
+    vpcSecurityGroupIds: [args.securityGroupId],
+    serverlessv2ScalingConfiguration: {
+      minCapacity: inputs.minCapacity ?? 0.5,
+      maxCapacity: inputs.maxCapacity ?? 2,
+    },
+    skipFinalSnapshot: inputs.profile.dbSkipFinalSnapshot,
+    finalSnapshotIdentifier: inputs.profile.dbSkipFinalSnapshot ? undefined : `${name}-aurora-final`,
+    deletionProtection: inputs.profile.dbDeletionProtection,
+    backupRetentionPeriod: inputs.profile.dbBackupRetentionDays,
+    preferredBackupWindow: "03:00-04:00",
+    preferredMaintenanceWindow: "mon:04:00-mon:05:00",
+    storageEncrypted: true,
+    tags: { ...inputs.tags, Name: `${name}-aurora` },
+  }, {
+    ignoreChanges: inputs.rotation ? ["masterPassword"] : [],
+  });
+
+  const writer = new aws.rds.ClusterInstance(`${name}-aurora-writer`, {
+    identifier: `${name}-aurora-writer`,
+    clusterIdentifier: cluster.id,
+    engine: "aurora-postgresql",
+    engineVersion: cluster.engineVersion,
+    instanceClass: "db.serverless",
+    publiclyAccessible: false,
+    performanceInsightsEnabled: inputs.profile.dbPerformanceInsights,
+    tags: { ...inputs.tags, Name: `${name}-aurora-writer` },
+  });
+
+  return {
+    address: cluster.endpoint,
+    port: cluster.port,
+    dbName: cluster.databaseName.apply((n) => n || "portfolio"),
+    username: cluster.masterUsername.apply((u) => u || "portfolio_admin"),
+    identifierKey: "dbClusterIdentifier",
+    identifier: cluster.clusterIdentifier,
+    readerAddress: cluster.readerEndpoint,
+    resource: writer,
   };
 }
@@ -0,0 +1,111 @@
+// Listener rule registry for the shared HTTPS listener. Apps register a host
+// (and optional path) in platform config, and the platform hands out listener
+// rule priorities so two apps can never collide.
+//
+// Priorities are derived from a hash of host + path, so adding or removing a
+// route usually leaves the others alone. When two routes hash to the same
+// priority, the one whose app sorts later takes the next free slot, so adding
+// or removing a route can shift that later route's priority. Path-scoped rules
+// land in a lower range than host-only rules, so `example.com/api` is matched
+// before `example.com`. Priorities below 1000 belong to unregistered apps.
+
+export interface RouteRegistration {
+  app: string;
+  // Full hostname, or a bare subdomain of the platform domain
+  host: string;
+  path?: string;
+  // Pin a priority explicitly (must be unique)
+  priority?: number;
+}
+
+export interface AssignedRoute {
+  host: string;
+  path?: string;
+  priority: number;
+}
+
+const legacyRange = { min: 1, max: 999 };
+const pathRange = { min: 1000, max: 24999 };
+const hostRange = { min: 25000, max: 49999 };
+
+function hashKey(key: string): number {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = ((hash << 5) - hash) + key.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash);
+}
+
+export function normalizeHost(host: string, domainName: string): string {
+  const lower = host.toLowerCase();
+  return lower.includes(".") ? lower : `${lower}.${domainName}`;
+}
+
+export function assignRoutePriorities(
+  routes: RouteRegistration[],
+  domainName: string
+): { [app: string]: AssignedRoute } {
+  const assigned: { [app: string]: AssignedRoute } = {};
+  const routeKeys = new Map<string, string>(); // host+path -> app
+  const taken = new Set<number>();
+
+  // Explicit priorities first, then hashed ones in a stable order
+  const pinned = routes.filter((r) => r.priority !== undefined);
+  const hashed = routes
+    .filter((r) => r.priority === undefined)
+    .sort((a, b) => a.app.localeCompare(b.app));
+
+  for (const route of [...pinned, ...hashed]) {
+    if (assigned[route.app]) {
+      throw new Error(`App "${route.app}" is registered more than once in albRoutes`);
+    }
+
+    const host = normalizeHost(route.host, domainName);
+    const key = `${host}${route.path ?? ""}`;
+    const existing = routeKeys.get(key);
+    if (existing) {
+      throw new Error(`Duplicate ALB route "${key}" for apps "${existing}" and "${route.app}"`);
+    }
+    routeKeys.set(key, route.app);
+
+    let priority: number;
+    if (route.priority !== undefined) {
+      priority = route.priority;
+      if (!Number.isInteger(priority) || priority < pathRange.min || priority > 50000) {
+        throw new Error(
+          `ALB route priority for "${route.app}" must be an integer from ${pathRange.min} to 50000 ` +
+            `(${legacyRange.min}-${legacyRange.max} are reserved for unregistered apps)`
+        );
+      }
+      if (taken.has(priority)) {
+        throw new Error(`ALB route priority ${priority} for "${route.app}" is already in use`);
+      }
+    } else {
+      const range = route.path ? pathRange : hostRange;
+      const size = range.max - range.min + 1;
+      const start = hashKey(key) % size;
+      let offset = 0;
+      while (taken.has(range.min + ((start + offset) % size))) {
+        offset++;
+        if (offset >= size) {
+          throw new Error("No free ALB listener rule priorities left");
+        }
+      }
+      priority = range.min + ((start + offset) % size);
+    }
+
+    taken.add(priority);
+    assigned[route.app] = { host, path: route.path, priority };
+  }
+
+  return assigned;
+}
+
+// Priority used by apps that are not registered - a hash of the subdomain in
+// a range the registry never hands out. Unregistered apps can still collide
+// with each other.
+export function legacyRulePriority(subdomain: string): number {
+  const size = legacyRange.max - legacyRange.min + 1;
+  return legacyRange.min + (hashKey(subdomain) % size);
+}
@@ -0,0 +1,105 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as aws from "@pulumi/aws";
+
+import { cidrSubnet } from "./vpc";
+
+// Split DNS for tailnet clients. Tailscale is configured (in the admin console)
+// to send queries for the exported domains to the exported resolver addresses,
+// which are reachable over the subnet router's advertised VPC routes.
+//
+// - vpc-resolver: the Amazon-provided resolver at the VPC base address + 2.
+//   Free; answers because the router SNATs tailnet traffic to its VPC address.
+// - resolver-endpoint: a Route53 Resolver inbound endpoint in the private
+//   subnets. Billed per ENI-hour, but doesn't rely on SNAT and also serves
+//   private hosted zones associated with the VPC.
+
+export type SplitDnsMode = "vpc-resolver" | "resolver-endpoint";
+
+export const splitDnsModes: SplitDnsMode[] = ["vpc-resolver", "resolver-endpoint"];
+
+export interface SplitDnsInputs {
+  mode: SplitDnsMode;
+  vpcId: pulumi.Output<string>;
+  vpcCidrBlock: string;
+  // Private subnets for the inbound endpoint (at least two)
+  subnetIds: pulumi.Output<string>[];
+  // Extra domains to route to the VPC resolver (e.g. private hosted zones)
+  extraDomains?: string[];
+  tags: { [key: string]: string };
+}
+
+export interface SplitDnsOutputs {
+  resolverIps: pulumi.Output<string[]>;
+  domains: pulumi.Output<string[]>;
+}
+
+export function createSplitDns(name: string, inputs: SplitDnsInputs): SplitDnsOutputs {
+  if (!splitDnsModes.includes(inputs.mode)) {
+    throw new Error(`Unknown split DNS mode "${inputs.mode}"; expected one of: ${splitDnsModes.join(", ")}`);
+  }
+
+  // RDS endpoints and EC2 private hostnames
+  const region = aws.getRegionOutput().name;
+  const domains = region.apply((r) => [
+    `${r}.rds.amazonaws.com`,
+    r === "us-east-1" ? "ec2.internal" : `${r}.compute.internal`,
+    ...(inputs.extraDomains ?? []),
+  ]);
+
+  if (inputs.mode === "vpc-resolver") {
+    const resolverIp = cidrSubnet(inputs.vpcCidrBlock, 32, 2).split("/")[0];
+    return {
+      resolverIps: pulumi.output([resolverIp]),
+      domains,
+    };
+  }
+
+  if (inputs.subnetIds.length < 2) {
+    throw new Error("A Route53 Resolver inbound endpoint needs at least two private subnets");
+  }
+
+  // Tailnet queries arrive SNATed from the router, or from the tailnet's
+  // CGNAT range when SNAT is turned off
+  const sg = new aws.ec2.SecurityGroup(`${name}-resolver-sg`, {
+    vpcId: inputs.vpcId,
+    description: "Route53 Resolver inbound endpoint for tailnet clients",
+    ingress: [
+      {
+        protocol: "udp",
+        fromPort: 53,
+        toPort: 53,
+        cidrBlocks: [inputs.vpcCidrBlock, "100.64.0.0/10"],
+        description: "DNS (UDP)",
+      },
+      {
+        protocol: "tcp",
+        fromPort: 53,
+        toPort: 53,
+        cidrBlocks: [inputs.vpcCidrBlock, "100.64.0.0/10"],
+        description: "DNS (TCP)",
+      },
+    ],
+    egress: [
+      {
+        protocol: "-1",
+        fromPort: 0,
+        toPort: 0,
+        cidrBlocks: ["0.0.0.0/0"],
+      },
+    ],
+    tags: { ...inputs.tags, Name: `${name}-resolver-sg` },
+  });
+
+  const endpoint = new aws.route53.ResolverEndpoint(`${name}-resolver-inbound`, {
+    name: `${name}-inbound`,
+    direction: "INBOUND",
+    securityGroupIds: [sg.id],
+    ipAddresses: inputs.subnetIds.map((subnetId) => ({ subnetId })),
+    tags: { ...inputs.tags, Name: `${name}-resolver-inbound` },
+  });
+
+  return {
+    resolverIps: endpoint.ipAddresses.apply((addresses) => addresses.map((a) => a.ip!)),
+    domains,
+  };
+}
@@ -2,22 +2,68 @@ import * as pulumi from "@pulumi/pulumi";
 import * as aws from "@pulumi/aws";
 
 // Tailscale subnet router - enables VPC access via Tailscale network
+//
+// By default a single instance runs in the first public subnet. In HA mode the
+// router runs from a launch template in an Auto Scaling group spread across all
+// public subnets; every node advertises the same routes, so Tailscale fails
+// over between them, and the ASG replaces nodes that fail EC2 health checks.
+// HA nodes are named after their AZ. A replacement only keeps the hostname
+// when nodes are ephemeral - otherwise the old node stays in the tailnet and
+// Tailscale gives the new one a numbered suffix (`...-us-east-1a-1`).
+//
+// Authentication: the secret holds either a pre-auth key ("auth-key") or a
+// Tailscale OAuth client secret ("oauth"). With an OAuth client, `tailscale up`
+// mints its own tagged auth key at boot, so nothing expires. OAuth nodes are
+// ephemeral by default, so replaced routers drop out of the tailnet. Routers
+// log in on every boot, so a stopped router whose ephemeral node was removed
+// rejoins when it starts again.
+//
+// The bootstrap log goes to CloudWatch, and a failed bootstrap writes a
+// TAILSCALE_BOOTSTRAP_FAILED line that is turned into a metric for alarms.
+
+export type TailscaleAuthMode = "auth-key" | "oauth";
+
+export const tailscaleAuthModes: TailscaleAuthMode[] = ["auth-key", "oauth"];
 
 export interface TailscaleSubnetRouterArgs {
   vpcId: pulumi.Output<string>;
-  subnetId: pulumi.Output<string>;
-  advertisedRoutes: string[];
+  vpcCidr: pulumi.Input<string>;
+  // Public subnets - the single router uses the first one
+  subnetIds: pulumi.Output<string>[];
+  advertisedRoutes: pulumi.Input<string>[];
   authKeySecretName: string;
+  authMode?: TailscaleAuthMode;
+  // ACL tags for the node - required with OAuth
+  advertiseTags?: string[];
+  // Enable Tailscale SSH on the router
+  enableSsh?: boolean;
+  // Defaults to true with OAuth
+  ephemeral?: boolean;
+  logRetentionDays?: number;
   instanceType?: string;
+  haMode?: boolean;
+  // HA node count - defaults to one per subnet, at most one per subnet
+  nodeCount?: number;
   tags: { [key: string]: string };
 }
 
+export interface TailscaleRouterInstance {
+  instanceId: string;
+  privateIp: string;
+  publicIp: string;
+}
+
 export interface TailscaleSubnetRouterOutputs {
-  instanceId: pulumi.Output<string>;
-  privateIp: pulumi.Output<string>;
-  publicIp: pulumi.Output<string>;
+  // In HA mode this is a snapshot of the group's running routers taken at
+  // deploy time - it goes stale as the ASG replaces nodes
+  instances: pulumi.Output<TailscaleRouterInstance[]>;
+  nodeCount: number;
+  // HA mode only - the source of truth for the current routers
+  autoScalingGroupName?: pulumi.Output<string>;
   securityGroupId: pulumi.Output<string>;
   authKeySecretArn: pulumi.Output<string>;
+  logGroupName: pulumi.Output<string>;
+  bootstrapFailureMetric: { namespace: string; metricName: string };
 }
 
 export function createTailscaleSubnetRouter(
@@ -25,6 +71,29 @@ export function createTailscaleSubnetRouter(
   args: TailscaleSubnetRouterArgs
 ): TailscaleSubnetRouterOutputs {
   const instanceType = args.instanceType || "t4g.nano";
+  const haMode = args.haMode ?? false;
+  const nodeCount = haMode ? args.nodeCount ?? args.subnetIds.length : 1;
+
+  const authMode = args.authMode ?? "auth-key";
+  const advertiseTags = args.advertiseTags ?? (authMode === "oauth" ? ["tag:portfolio-router"] : []);
+  const ephemeral = args.ephemeral ?? authMode === "oauth";
+
+  if (!tailscaleAuthModes.includes(authMode)) {
+    throw new Error(`Unknown Tailscale auth mode "${authMode}"; expected one of: ${tailscaleAuthModes.join(", ")}`);
+  }
+  if (authMode === "oauth" && advertiseTags.length === 0) {
+    throw new Error("Tailscale OAuth authentication needs at least one advertised tag");
+  }
+  const badTags = advertiseTags.filter((t) => !/^tag:[a-z0-9-]+$/i.test(t));
+  if (badTags.length > 0) {
+    throw new Error(`Invalid Tailscale tag(s): ${badTags.join(", ")}; expected tag:<name>`);
+  }
+
+  if (haMode && (nodeCount < 2 || nodeCount > args.subnetIds.length)) {
+    throw new Error(
+      `Tailscale HA mode needs between 2 and ${args.subnetIds.length} nodes (one per public subnet), got ${nodeCount}`
+    );
+  }
 
   // Security group for Tailscale
   const sg = new aws.ec2.SecurityGroup(`${name}-tailscale-sg`, {
@@ -44,7 +113,7 @@ export function createTailscaleSubnetRouter(
         protocol: "tcp",
         fromPort: 22,
         toPort: 22,
-        cidrBlocks: ["10.0.0.0/16"],
+        cidrBlocks: [args.vpcCidr],
         description: "SSH from VPC",
       },
     ],
@@ -80,7 +149,10 @@ export function createTailscaleSubnetRouter(
   // Get or create the Secrets Manager secret for the auth key
   const authKeySecret = new aws.secretsmanager.Secret(`${name}-tailscale-auth-key`, {
     name: args.authKeySecretName,
-    description: "Tailscale auth key for subnet router",
+    description:
+      authMode === "oauth"
+        ? "Tailscale OAuth client secret for subnet router"
+        : "Tailscale auth key for subnet router",
     tags: args.tags,
   });
 
@@ -101,6 +173,63 @@ export function createTailscaleSubnetRouter(
     }`,
   });
 
+  // Bootstrap logs
+  const logGroup = new aws.cloudwatch.LogGroup(`${name}-tailscale-logs`, {
+    name: `/portfolio/${name}/tailscale`,
+    retentionInDays: args.logRetentionDays ?? 30,
+    tags: args.tags,
+  });
+
+  new aws.iam.RolePolicy(`${name}-tailscale-logs-policy`, {
+    role: role.id,
+    policy: {
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Effect: "Allow",
+          Action: ["logs:CreateLogStream", "logs:PutLogEvents", "logs:DescribeLogStreams"],
+          Resource: [logGroup.arn, pulumi.interpolate`${logGroup.arn}:*`],
+        },
+      ],
+    },
+  });
+
+  const bootstrapFailureMetric = { namespace: `${name}/Tailscale`, metricName: "BootstrapFailures" };
+
+  new aws.cloudwatch.LogMetricFilter(`${name}-tailscale-bootstrap-failures`, {
+    logGroupName: logGroup.name,
+    pattern: "TAILSCALE_BOOTSTRAP_FAILED",
+    metricTransformation: {
+      namespace: bootstrapFailureMetric.namespace,
+      name: bootstrapFailureMetric.metricName,
+      value: "1",
+      defaultValue: "0",
+    },
+  });
+
+  // HA nodes come from a launch template, which can't disable the
+  // source/destination check - each node turns it off for itself at boot
+  if (haMode) {
+    new aws.iam.RolePolicy(`${name}-tailscale-sdc-policy`, {
+      role: role.id,
+      policy: JSON.stringify({
+        Version: "2012-10-17",
+        Statement: [
+          {
+            Effect: "Allow",
+            Action: "ec2:ModifyInstanceAttribute",
+            Resource: "*",
+            Condition: {
+              StringEquals: {
+                "ec2:ResourceTag/Name": `${name}-tailscale-router`,
+              },
+            },
+          },
+        ],
+      }),
+    });
+  }
+
   // Attach SSM managed policy for Session Manager access (optional but useful)
   new aws.iam.RolePolicyAttachment(`${name}-tailscale-ssm`, {
     role: role.name,
@@ -130,10 +259,70 @@ export function createTailscaleSubnetRouter(
   });
 
   // User data script to install and configure Tailscale
-  const advertisedRoutesStr = args.advertisedRoutes.join(",");
+  const advertisedRoutesStr = pulumi.output(args.advertisedRoutes).apply((routes) => routes.join(","));
   const region = aws.getRegionOutput().name;
+
+  // HA nodes look up their instance ID and AZ from IMDSv2
+  const haSetup = haMode
+    ? `# Instance identity
+IMDS_TOKEN=$(curl -sX PUT http://169.254.169.254/latest/api/token -H "X-aws-ec2-metadata-token-ttl-seconds: 300")
+INSTANCE_ID=$(curl -sH "X-aws-ec2-metadata-token: $IMDS_TOKEN" http://169.254.169.254/latest/meta-data/instance-id)
+AZ=$(curl -sH "X-aws-ec2-metadata-token: $IMDS_TOKEN" http://169.254.169.254/latest/meta-data/placement/availability-zone)
+
+# Required for routing
+aws ec2 modify-instance-attribute --instance-id "$INSTANCE_ID" --no-source-dest-check --region "\${AZ%?}"
+
+`
+    : "";
+  const hostname = haMode ? `${name}-subnet-router-$AZ` : `${name}-subnet-router`;
+
+  // Extra `tailscale up` flags. An OAuth client secret is exchanged for an
+  // auth key by the CLI; the query string sets the properties of that key.
+  const authKeyOptions = authMode === "oauth" ? `?ephemeral=${ephemeral}&preauthorized=true` : "";
+  const upFlags = [
+    advertiseTags.length > 0 ? ` --advertise-tags=${advertiseTags.join(",")}` : "",
+    args.enableSsh ? " --ssh" : "",
+  ].join("");
+  const secretCheck =
+    authMode === "oauth"
+      ? `[[ "$AUTH_KEY" == tskey-client-* ]] || fail "${args.authKeySecretName} does not hold an OAuth client secret"\n`
+      : "";
+
+  // Both the one-time install and the per-boot login log to the same file
+  const scriptPreamble = `set -euo pipefail
+
+exec > >(tee -a /var/log/tailscale-bootstrap.log) 2>&1
+
+fail() {
+  echo "TAILSCALE_BOOTSTRAP_FAILED: $1"
+  sleep 30 # let the CloudWatch agent ship the log
+  exit 1
+}
+trap 'fail "line $LINENO exited with status $?"' ERR`;
+
   const userData = pulumi.interpolate`#!/bin/bash
-set -e
+${scriptPreamble}
+
+# Ship the bootstrap log to CloudWatch
+dnf install -y amazon-cloudwatch-agent
+cat > /opt/aws/amazon-cloudwatch-agent/etc/tailscale.json <<'CWAGENT'
+{
+  "logs": {
+    "logs_collected": {
+      "files": {
+        "collect_list": [
+          {
+            "file_path": "/var/log/tailscale-bootstrap.log",
+            "log_group_name": "${logGroup.name}",
+            "log_stream_name": "{instance_id}/bootstrap"
+          }
+        ]
+      }
+    }
+  }
+}
+CWAGENT
+/opt/aws/amazon-cloudwatch-agent/bin/amazon-cloudwatch-agent-ctl -a fetch-config -m ec2 -s -c file:/opt/aws/amazon-cloudwatch-agent/etc/tailscale.json
 
 # Enable IP forwarding
 echo 'net.ipv4.ip_forward = 1' | tee -a /etc/sysctl.d/99-tailscale.conf
@@ -147,21 +336,55 @@ dnf install -y tailscale
 # Enable and start tailscaled
 systemctl enable --now tailscaled
 
+# Log in on every boot, not just the first. User data only runs once, and an
+# ephemeral node is removed from the tailnet while a hibernated router is
+# stopped. An already logged-in node ignores the auth key.
+mkdir -p /var/lib/cloud/scripts/per-boot
+cat > /var/lib/cloud/scripts/per-boot/tailscale-up.sh <<'TAILSCALE_UP'
+#!/bin/bash
+${scriptPreamble}
+
 # Wait for tailscaled to be ready
 sleep 5
 
-# Get auth key from Secrets Manager
-AUTH_KEY=$(aws secretsmanager get-secret-value --secret-id ${authKeySecret.name} --region ${region} --query SecretString --output text)
-
+${haSetup}# Get auth key from Secrets Manager
+AUTH_KEY=$(aws secretsmanager get-secret-value --secret-id ${authKeySecret.name} --region ${region} --query SecretString --output text) \
+  || fail "could not read ${authKeySecret.name} from Secrets Manager"
+[ -n "$AUTH_KEY" ] || fail "${authKeySecret.name} is empty"
+${secretCheck}
 # Authenticate and advertise routes
-tailscale up --authkey="$AUTH_KEY" --advertise-routes=${advertisedRoutesStr} --accept-dns=false --hostname=${name}-subnet-router
+tailscale up --authkey="$AUTH_KEY${authKeyOptions}" --advertise-routes=${advertisedRoutesStr} --accept-dns=false --hostname=${hostname}${upFlags} --timeout=120s \
+  || fail "tailscale up did not authenticate"
+
+echo "Tailscale bootstrap complete"
+TAILSCALE_UP
+chmod +x /var/lib/cloud/scripts/per-boot/tailscale-up.sh
+
+# cloud-init has already run this boot's per-boot scripts
+/var/lib/cloud/scripts/per-boot/tailscale-up.sh
 `;
 
+  if (haMode) {
+    return createRouterGroup(name, {
+      ami: ami.then((a) => a.id),
+      instanceType,
+      subnetIds: args.subnetIds,
+      securityGroupId: sg.id,
+      instanceProfileName: instanceProfile.name,
+      userData,
+      nodeCount,
+      authKeySecretArn: authKeySecret.arn,
+      logGroupName: logGroup.name,
+      bootstrapFailureMetric,
+      tags: args.tags,
+    });
+  }
+
   // EC2 instance
   const instance = new aws.ec2.Instance(`${name}-tailscale`, {
     ami: ami.then((a) => a.id),
     instanceType: instanceType,
-    subnetId: args.subnetId,
+    subnetId: args.subnetIds[0],
     vpcSecurityGroupIds: [sg.id],
     iamInstanceProfile: instanceProfile.name,
     sourceDestCheck: false, // Required for routing
@@ -180,10 +403,125 @@ tailscale up --authkey="$AUTH_KEY" --advertise-routes=${advertisedRoutesStr} --a
   });
 
   return {
-    instanceId: instance.id,
-    privateIp: instance.privateIp,
-    publicIp: instance.publicIp,
+    instances: pulumi
+      .all([instance.id, instance.privateIp, instance.publicIp])
+      .apply(([instanceId, privateIp, publicIp]) => [{ instanceId, privateIp, publicIp }]),
+    nodeCount,
     securityGroupId: sg.id,
     authKeySecretArn: authKeySecret.arn,
+    logGroupName: logGroup.name,
+    bootstrapFailureMetric,
+  };
+}
+
+interface RouterGroupArgs {
+  ami: Promise<string>;
+  instanceType: string;
+  subnetIds: pulumi.Output<string>[];
+  securityGroupId: pulumi.Output<string>;
+  instanceProfileName: pulumi.Output<string>;
+  userData: pulumi.Output<string>;
+  nodeCount: number;
+  authKeySecretArn: pulumi.Output<string>;
+  logGroupName: pulumi.Output<string>;
+  bootstrapFailureMetric: { namespace: string; metricName: string };
+  tags: { [key: string]: string };
+}
+
+// HA mode - Auto Scaling group of routers, one per AZ
+function createRouterGroup(name: string, args: RouterGroupArgs): TailscaleSubnetRouterOutputs {
+  const launchTemplate = new aws.ec2.LaunchTemplate(`${name}-tailscale-lt`, {
+    namePrefix: `${name}-tailscale-`,
+    imageId: args.ami,
+    instanceType: args.instanceType,
+    iamInstanceProfile: { name: args.instanceProfileName },
+    networkInterfaces: [
+      {
+        associatePublicIpAddress: "true",
+        securityGroups: [args.securityGroupId],
+        deleteOnTermination: "true",
+      },
+    ],
+    userData: args.userData.apply((script) => Buffer.from(script).toString("base64")),
+    blockDeviceMappings: [
+      {
+        deviceName: "/dev/xvda",
+        ebs: {
+          volumeSize: 30,
+          volumeType: "gp3",
+          encrypted: "true",
+          deleteOnTermination: "true",
+        },
+      },
+    ],
+    metadataOptions: {
+      httpEndpoint: "enabled",
+      httpTokens: "required", // IMDSv2
+      httpPutResponseHopLimit: 2,
+    },
+    tagSpecifications: [
+      {
+        resourceType: "instance",
+        tags: { ...args.tags, Name: `${name}-tailscale-router` },
+      },
+      {
+        resourceType: "volume",
+        tags: { ...args.tags, Name: `${name}-tailscale-router` },
+      },
+    ],
+    tags: args.tags,
+  });
+
+  // EC2 health checks - nodes failing status checks are replaced. Launch
+  // template changes roll out one node at a time so the routes stay up.
+  const group = new aws.autoscaling.Group(`${name}-tailscale-asg`, {
+    namePrefix: `${name}-tailscale-`,
+    vpcZoneIdentifiers: args.subnetIds,
+    minSize: args.nodeCount,
+    maxSize: args.nodeCount,
+    desiredCapacity: args.nodeCount,
+    healthCheckType: "EC2",
+    healthCheckGracePeriod: 300,
+    launchTemplate: {
+      id: launchTemplate.id,
+      version: launchTemplate.latestVersion.apply((v) => `${v}`),
+    },
+    instanceRefresh: {
+      strategy: "Rolling",
+      preferences: {
+        minHealthyPercentage: 50,
+      },
+    },
+    enabledMetrics: ["GroupInServiceInstances", "GroupDesiredCapacity"],
+    tags: Object.entries({ ...args.tags, Name: `${name}-tailscale-router` }).map(([key, value]) => ({
+      key,
+      value,
+      propagateAtLaunch: false,
+    })),
+  });
+
+  // Running routers in the group at deploy time. Only refreshed by the next
+  // `pulumi up` - look up the ASG for the current instances.
+  const instances = aws.ec2
+    .getInstancesOutput({
+      instanceTags: { "aws:autoscaling:groupName": group.name },
+      instanceStateNames: ["running"],
+    })
+    .apply((result) =>
+      result.ids.map((instanceId, i) => ({
+        instanceId,
+        privateIp: result.privateIps[i],
+        publicIp: result.publicIps[i] ?? "",
+      }))
+    );
+
+  return {
+    instances,
+    nodeCount: args.nodeCount,
+    autoScalingGroupName: group.name,
+    securityGroupId: args.securityGroupId,
+    authKeySecretArn: args.authKeySecretArn,
+    logGroupName: args.logGroupName,
+    bootstrapFailureMetric: args.bootstrapFailureMetric,
   };
 }
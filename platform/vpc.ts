@@ -1,22 +1,115 @@
 import * as pulumi from "@pulumi/pulumi";
 import * as aws from "@pulumi/aws";
 
+import { vpcFlowLogPrefix } from "./logarchive";
+
 export interface VpcOutputs {
   vpcId: pulumi.Output<string>;
+  vpcCidr: pulumi.Output<string>;
   publicSubnetIds: pulumi.Output<string>[];
   privateSubnetIds: pulumi.Output<string>[];
+  dataSubnetIds: pulumi.Output<string>[];
+  privateRouteTableIds: pulumi.Output<string>[];
   defaultSecurityGroupId: pulumi.Output<string>;
 }
 
-export function createVpc(name: string, tags: { [key: string]: string }): VpcOutputs {
+// How private subnets reach the internet:
+// - none: no egress (VPC endpoints only, see endpoints.ts)
+// - nat-instance: one cheap ARM EC2 NAT instance in the first public subnet
+// - nat-gateway-single: one managed NAT gateway shared by all AZs
+// - nat-gateway-per-az: one managed NAT gateway per AZ (no cross-AZ dependency)
+export type EgressMode = "none" | "nat-instance" | "nat-gateway-single" | "nat-gateway-per-az";
+
+export const egressModes: EgressMode[] = ["none", "nat-instance", "nat-gateway-single", "nat-gateway-per-az"];
+
+export interface VpcInputs {
+  cidrBlock?: string;
+  azCount?: number;
+  subnetPrefixLength?: number;
+  // Subnet index gap between tiers: public at 0, private at 1x, data at 2x
+  tierSpacing?: number;
+  enableDataSubnets?: boolean;
+  egressMode?: EgressMode;
+  natInstanceType?: string;
+  // Log archive bucket ARN for VPC flow logs (logarchive.ts)
+  flowLogsBucketArn?: pulumi.Output<string>;
+  tags: { [key: string]: string };
+}
+
+function parseIpv4(ip: string): number {
+  const octets = ip.split(".").map((o) => parseInt(o, 10));
+  if (octets.length !== 4 || octets.some((o) => isNaN(o) || o < 0 || o > 255)) {
+    throw new Error(`Invalid IPv4 address: ${ip}`);
+  }
+  return ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+}
+
+function formatIpv4(value: number): string {
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 255).join(".");
+}
+
+// Carve the index-th subnet of the given prefix length out of a CIDR block,
+// e.g. cidrSubnet("10.0.0.0/16", 24, 10) === "10.0.10.0/24"
+export function cidrSubnet(cidr: string, prefixLength: number, index: number): string {
+  const [baseIp, basePrefixStr] = cidr.split("/");
+  const basePrefix = parseInt(basePrefixStr, 10);
+  if (isNaN(basePrefix) || basePrefix < 0 || basePrefix > 32) {
+    throw new Error(`Invalid CIDR block: ${cidr}`);
+  }
+  if (prefixLength < basePrefix || prefixLength > 32) {
+    throw new Error(`Subnet prefix /${prefixLength} does not fit inside ${cidr}`);
+  }
+
+  const available = 2 ** (prefixLength - basePrefix);
+  if (index < 0 || index >= available) {
+    throw new Error(`Subnet index ${index} is out of range for /${prefixLength} subnets of ${cidr}`);
+  }
+
+  const baseMask = basePrefix === 0 ? 0 : (~0 << (32 - basePrefix)) >>> 0;
+  const network = (parseIpv4(baseIp) & baseMask) >>> 0;
+  const subnet = network + index * 2 ** (32 - prefixLength);
+  return `${formatIpv4(subnet)}/${prefixLength}`;
+}
+
+export function createVpc(name: string, inputs: VpcInputs): VpcOutputs {
+  const tags = inputs.tags;
+  const cidrBlock = inputs.cidrBlock || "10.0.0.0/16";
+  const azCount = inputs.azCount ?? 2;
+  const subnetPrefixLength = inputs.subnetPrefixLength ?? 24;
+  const tierSpacing = inputs.tierSpacing ?? 10;
+  const enableDataSubnets = inputs.enableDataSubnets ?? false;
+  const egressMode = inputs.egressMode ?? "none";
+
+  if (azCount < 2) {
+    throw new Error(`azCount must be at least 2 (the ALB requires two AZs), got ${azCount}`);
+  }
+  if (!egressModes.includes(egressMode)) {
+    throw new Error(`Unknown egressMode "${egressMode}"; expected one of: ${egressModes.join(", ")}`);
+  }
+  if (azCount > tierSpacing) {
+    throw new Error(`azCount (${azCount}) cannot exceed tierSpacing (${tierSpacing})`);
+  }
+
   // Create VPC
   const vpc = new aws.ec2.Vpc(`${name}-vpc`, {
-    cidrBlock: "10.0.0.0/16",
+    cidrBlock: cidrBlock,
     enableDnsHostnames: true,
     enableDnsSupport: true,
     tags: { ...tags, Name: `${name}-vpc` },
   });
 
+  // Flow logs (optional)
+  if (inputs.flowLogsBucketArn) {
+    new aws.ec2.FlowLog(`${name}-flow-logs`, {
+      vpcId: vpc.id,
+      trafficType: "ALL",
+      logDestinationType: "s3",
+      logDestination: pulumi.interpolate`${inputs.flowLogsBucketArn}/${vpcFlowLogPrefix}/`,
+      maxAggregationInterval: 600,
+      tags: { ...tags, Name: `${name}-flow-logs` },
+    });
+  }
+
   // Internet Gateway
   const igw = new aws.ec2.InternetGateway(`${name}-igw`, {
     vpcId: vpc.id,
@@ -26,14 +119,15 @@ export function createVpc(name: string, tags: { [key: string]: string }): VpcOut
   // Get availability zones
   const azs = aws.getAvailabilityZones({ state: "available" });
 
-  // Public subnets (2 AZs for ALB requirement)
+  // Subnets - one per AZ in each tier, computed from the VPC CIDR
   const publicSubnets: aws.ec2.Subnet[] = [];
   const privateSubnets: aws.ec2.Subnet[] = [];
+  const dataSubnets: aws.ec2.Subnet[] = [];
 
-  for (let i = 0; i < 2; i++) {
+  for (let i = 0; i < azCount; i++) {
     const publicSubnet = new aws.ec2.Subnet(`${name}-public-${i}`, {
       vpcId: vpc.id,
-      cidrBlock: `10.0.${i}.0/24`,
+      cidrBlock: cidrSubnet(cidrBlock, subnetPrefixLength, i),
       availabilityZone: azs.then(az => az.names[i]),
       mapPublicIpOnLaunch: true,
       tags: { ...tags, Name: `${name}-public-${i}` },
@@ -42,11 +136,22 @@ export function createVpc(name: string, tags: { [key: string]: string }): VpcOut
 
     const privateSubnet = new aws.ec2.Subnet(`${name}-private-${i}`, {
       vpcId: vpc.id,
-      cidrBlock: `10.0.${i + 10}.0/24`,
+      cidrBlock: cidrSubnet(cidrBlock, subnetPrefixLength, tierSpacing + i),
       availabilityZone: azs.then(az => az.names[i]),
       tags: { ...tags, Name: `${name}-private-${i}` },
     });
     privateSubnets.push(privateSubnet);
+
+    // Isolated data tier (no internet route) for RDS
+    if (enableDataSubnets) {
+      const dataSubnet = new aws.ec2.Subnet(`${name}-data-${i}`, {
+        vpcId: vpc.id,
+        cidrBlock: cidrSubnet(cidrBlock, subnetPrefixLength, 2 * tierSpacing + i),
+        availabilityZone: azs.then(az => az.names[i]),
+        tags: { ...tags, Name: `${name}-data-${i}` },
+      });
+      dataSubnets.push(dataSubnet);
+    }
   }
 
   // Public route table
@@ -69,9 +174,48 @@ export function createVpc(name: string, tags: { [key: string]: string }): VpcOut
     });
   });
 
-  // For cost savings, we skip NAT Gateway in dev
-  // Private subnets can still pull images via VPC endpoints or NAT instance
-  // Add NAT Gateway for prod if needed
+  // Data route table - local VPC routes only
+  if (enableDataSubnets) {
+    const dataRouteTable = new aws.ec2.RouteTable(`${name}-data-rt`, {
+      vpcId: vpc.id,
+      tags: { ...tags, Name: `${name}-data-rt` },
+    });
+
+    dataSubnets.forEach((subnet, i) => {
+      new aws.ec2.RouteTableAssociation(`${name}-data-rta-${i}`, {
+        subnetId: subnet.id,
+        routeTableId: dataRouteTable.id,
+      });
+    });
+  }
+
+  // Private egress - each AZ gets its own private route table so the egress
+  // mode can change without re-associating subnets
+  const natTargets = createEgress(name, egressMode, {
+    vpcId: vpc.id,
+    vpcCidr: cidrBlock,
+    publicSubnets,
+    natInstanceType: inputs.natInstanceType || "t4g.nano",
+    dependsOn: [igw],
+    tags,
+  });
+
+  const privateRouteTables = privateSubnets.map((subnet, i) => {
+    const target = natTargets.length > 0 ? natTargets[Math.min(i, natTargets.length - 1)] : undefined;
+
+    const routeTable = new aws.ec2.RouteTable(`${name}-private-rt-${i}`, {
+      vpcId: vpc.id,
+      routes: target ? [{ cidrBlock: "0.0.0.0/0", ...target }] : [],
+      tags: { ...tags, Name: `${name}-private-rt-${i}` },
+    });
+
+    new aws.ec2.RouteTableAssociation(`${name}-private-rta-${i}`, {
+      subnetId: subnet.id,
+      routeTableId: routeTable.id,
+    });
+
+    return routeTable;
+  });
 
   // Default security group for internal communication
   const defaultSg = new aws.ec2.SecurityGroup(`${name}-default-sg`, {
@@ -98,8 +242,132 @@ export function createVpc(name: string, tags: { [key: string]: string }): VpcOut
 
   return {
     vpcId: vpc.id,
+    vpcCidr: vpc.cidrBlock,
     publicSubnetIds: publicSubnets.map(s => s.id),
     privateSubnetIds: privateSubnets.map(s => s.id),
+    dataSubnetIds: dataSubnets.map(s => s.id),
+    privateRouteTableIds: privateRouteTables.map(rt => rt.id),
     defaultSecurityGroupId: defaultSg.id,
   };
 }
+
+interface NatTarget {
+  natGatewayId?: pulumi.Output<string>;
+  networkInterfaceId?: pulumi.Output<string>;
+}
+
+interface EgressArgs {
+  vpcId: pulumi.Output<string>;
+  vpcCidr: string;
+  publicSubnets: aws.ec2.Subnet[];
+  natInstanceType: string;
+  dependsOn: pulumi.Resource[];
+  tags: { [key: string]: string };
+}
+
+// Create the NAT resources for the egress mode. Returns one route target per
+// NAT; AZs beyond the number of targets share the last one.
+function createEgress(name: string, mode: EgressMode, args: EgressArgs): NatTarget[] {
+  const tags = args.tags;
+
+  if (mode === "none") {
+    return [];
+  }
+
+  if (mode === "nat-instance") {
+    const sg = new aws.ec2.SecurityGroup(`${name}-nat-sg`, {
+      vpcId: args.vpcId,
+      description: "Security group for NAT instance",
+      ingress: [
+        {
+          protocol: "-1",
+          fromPort: 0,
+          toPort: 0,
+          cidrBlocks: [args.vpcCidr],
+          description: "All traffic from VPC",
+        },
+      ],
+      egress: [
+        {
+          protocol: "-1",
+          fromPort: 0,
+          toPort: 0,
+          cidrBlocks: ["0.0.0.0/0"],
+          description: "Allow all outbound",
+        },
+      ],
+      tags: { ...tags, Name: `${name}-nat-sg` },
+    });
+
+    // Latest Amazon Linux 2023 ARM AMI (same as the Tailscale router)
+    const ami = aws.ec2.getAmi({
+      mostRecent: true,
+      owners: ["amazon"],
+      filters: [
+        {
+          name: "name",
+          values: ["al2023-ami-*-arm64"],
+        },
+        {
+          name: "virtualization-type",
+          values: ["hvm"],
+        },
+      ],
+    });
+
+    const userData = `#!/bin/bash
+set -e
+
+# Enable IP forwarding
+echo 'net.ipv4.ip_forward = 1' | tee /etc/sysctl.d/99-nat.conf
+sysctl -p /etc/sysctl.d/99-nat.conf
+
+# Masquerade VPC traffic out of the primary interface
+dnf install -y iptables-services
+IFACE=$(ip route show default | awk '{print $5}' | head -n1)
+iptables -t nat -A POSTROUTING -o "$IFACE" -s ${args.vpcCidr} -j MASQUERADE
+iptables -F FORWARD
+service iptables save
+systemctl enable --now iptables
+`;
+
+    const instance = new aws.ec2.Instance(`${name}-nat`, {
+      ami: ami.then((a) => a.id),
+      instanceType: args.natInstanceType,
+      subnetId: args.publicSubnets[0].id,
+      vpcSecurityGroupIds: [sg.id],
+      sourceDestCheck: false, // Required for NAT
+      userData: userData,
+      userDataReplaceOnChange: true,
+      rootBlockDevice: {
+        volumeSize: 30,
+        volumeType: "gp3",
+        encrypted: true,
+      },
+      metadataOptions: {
+        httpTokens: "required", // IMDSv2
+      },
+      tags: { ...tags, Name: `${name}-nat-instance` },
+    }, { dependsOn: args.dependsOn });
+
+    return [{ networkInterfaceId: instance.primaryNetworkInterfaceId }];
+  }
+
+  // Managed NAT gateway(s) - one in the first public subnet, or one per AZ
+  const natSubnets = mode === "nat-gateway-per-az" ? args.publicSubnets : [args.publicSubnets[0]];
+
+  return natSubnets.map((subnet, i) => {
+    const eip = new aws.ec2.Eip(`${name}-nat-eip-${i}`, {
+      domain: "vpc",
+      tags: { ...tags, Name: `${name}-nat-eip-${i}` },
+    }, { dependsOn: args.dependsOn });
+
+    const natGateway = new aws.ec2.NatGateway(`${name}-nat-${i}`, {
+      allocationId: eip.id,
+      subnetId: subnet.id,
+      tags: { ...tags, Name: `${name}-nat-${i}` },
+    }, { dependsOn: args.dependsOn });
+
+    return { natGatewayId: natGateway.id };
+  });
+}
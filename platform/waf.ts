@@ -0,0 +1,163 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as aws from "@pulumi/aws";
+
+// WAFv2 web ACL in front of the shared ALB. Rules are evaluated in order:
+// IP allow list, IP deny list, per-IP rate limit, then AWS managed rule groups.
+
+export type ManagedRuleGroup = "common" | "known-bad-inputs" | "ip-reputation";
+
+const managedRuleGroupNames: { [K in ManagedRuleGroup]: string } = {
+  "common": "AWSManagedRulesCommonRuleSet",
+  "known-bad-inputs": "AWSManagedRulesKnownBadInputsRuleSet",
+  "ip-reputation": "AWSManagedRulesAmazonIpReputationList",
+};
+
+export const defaultManagedRuleGroups: ManagedRuleGroup[] = ["common", "known-bad-inputs", "ip-reputation"];
+
+export interface WafInputs {
+  albArn: pulumi.Output<string>;
+  managedRuleGroups?: ManagedRuleGroup[];
+  // Requests per 5 minutes from a single IP before it is blocked
+  rateLimit?: number;
+  allowIps?: string[];
+  denyIps?: string[];
+  logRetentionDays: number;
+  tags: { [key: string]: string };
+}
+
+export interface WafOutputs {
+  webAclArn: pulumi.Output<string>;
+  webAclId: pulumi.Output<string>;
+  logGroupName: pulumi.Output<string>;
+}
+
+function visibilityConfig(metricName: string) {
+  return {
+    cloudwatchMetricsEnabled: true,
+    sampledRequestsEnabled: true,
+    metricName,
+  };
+}
+
+// WAF IP sets want CIDR notation - accept bare addresses from config
+function toCidr(ip: string): string {
+  return ip.includes("/") ? ip : `${ip}/32`;
+}
+
+export function createWaf(name: string, inputs: WafInputs): WafOutputs {
+  const managedRuleGroups = inputs.managedRuleGroups ?? defaultManagedRuleGroups;
+  const rateLimit = inputs.rateLimit ?? 2000;
+  const allowIps = (inputs.allowIps ?? []).map(toCidr);
+  const denyIps = (inputs.denyIps ?? []).map(toCidr);
+
+  const unknown = managedRuleGroups.filter((g) => !(g in managedRuleGroupNames));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown WAF managed rule group(s): ${unknown.join(", ")}; ` +
+        `expected any of: ${Object.keys(managedRuleGroupNames).join(", ")}`
+    );
+  }
+
+  const rules: aws.types.input.wafv2.WebAclRule[] = [];
+
+  // IP allow list - skips every rule below
+  if (allowIps.length > 0) {
+    const allowSet = new aws.wafv2.IpSet(`${name}-waf-allow`, {
+      name: `${name}-waf-allow`,
+      scope: "REGIONAL",
+      ipAddressVersion: "IPV4",
+      addresses: allowIps,
+      tags: inputs.tags,
+    });
+
+    rules.push({
+      name: "allow-list",
+      priority: 0,
+      action: { allow: {} },
+      statement: { ipSetReferenceStatement: { arn: allowSet.arn } },
+      visibilityConfig: visibilityConfig(`${name}-allow-list`),
+    });
+  }
+
+  // IP deny list
+  if (denyIps.length > 0) {
+    const denySet = new aws.wafv2.IpSet(`${name}-waf-deny`, {
+      name: `${name}-waf-deny`,
+      scope: "REGIONAL",
+      ipAddressVersion: "IPV4",
+      addresses: denyIps,
+      tags: inputs.tags,
+    });
+
+    rules.push({
+      name: "deny-list",
+      priority: 1,
+      action: { block: {} },
+      statement: { ipSetReferenceStatement: { arn: denySet.arn } },
+      visibilityConfig: visibilityConfig(`${name}-deny-list`),
+    });
+  }
+
+  // Per-IP rate limit
+  rules.push({
+    name: "rate-limit",
+    priority: 2,
+    action: { block: {} },
+    statement: {
+      rateBasedStatement: {
+        limit: rateLimit,
+        aggregateKeyType: "IP",
+      },
+    },
+    visibilityConfig: visibilityConfig(`${name}-rate-limit`),
+  });
+
+  // AWS managed rule groups
+  managedRuleGroups.forEach((group, i) => {
+    rules.push({
+      name: `aws-${group}`,
+      priority: 10 + i,
+      overrideAction: { none: {} },
+      statement: {
+        managedRuleGroupStatement: {
+          name: managedRuleGroupNames[group],
+          vendorName: "AWS",
+        },
+      },
+      visibilityConfig: visibilityConfig(`${name}-aws-${group}`),
+    });
+  });
+
+  const webAcl = new aws.wafv2.WebAcl(`${name}-waf`, {
+    name: `${name}-waf`,
+    description: "Web ACL for the shared ALB",
+    scope: "REGIONAL",
+    defaultAction: { allow: {} },
+    rules,
+    visibilityConfig: visibilityConfig(`${name}-waf`),
+    tags: inputs.tags,
+  });
+
+  new aws.wafv2.WebAclAssociation(`${name}-waf-association`, {
+    resourceArn: inputs.albArn,
+    webAclArn: webAcl.arn,
+  });
+
+  // WAF logs - the log group name must start with aws-waf-logs-
+  const logGroup = new aws.cloudwatch.LogGroup(`${name}-waf-logs`, {
+    name: `aws-waf-logs-${name}`,
+    retentionInDays: inputs.logRetentionDays,
+    tags: inputs.tags,
+  });
+
+  new aws.wafv2.WebAclLoggingConfiguration(`${name}-waf-logging`, {
+    resourceArn: webAcl.arn,
+    logDestinationConfigs: [logGroup.arn],
+  });
+
+  return {
+    webAclArn: webAcl.arn,
+    webAclId: webAcl.id,
+    logGroupName: logGroup.name,
+  };
+}
@@ -0,0 +1,10 @@
+import { PolicyPack } from "@pulumi/policy";
+import { policies } from "./policies";
+
+// Platform conventions - run against the platform stack and every app stack
+// built on it. Advisory by default; prod deploys pass config/prod.json to make
+// every policy mandatory.
+new PolicyPack("portfolio-platform-policy", {
+  enforcementLevel: "advisory",
+  policies,
+});
@@ -0,0 +1,203 @@
+import * as aws from "@pulumi/aws";
+import {
+  ReportViolation,
+  ResourceValidationArgs,
+  ResourceValidationPolicy,
+  validateResourceOfType,
+} from "@pulumi/policy";
+
+// Platform conventions as policies. Kept apart from index.ts so tests can
+// import them without starting the policy analyzer.
+//
+// S3, ECR, SNS and Secrets Manager encrypt at rest by default, so the
+// encryption policy only covers storage that doesn't (RDS and EBS).
+
+// Canonical tags from platform/cost.ts
+const requiredTags = ["Project", "Environment", "ManagedBy"];
+
+// Resource types the platform and PortfolioApp create that accept tags
+const taggableTypes = new Set([
+  "aws:acm/certificate:Certificate",
+  "aws:autoscaling/group:Group",
+  "aws:budgets/budget:Budget",
+  "aws:cloudwatch/logGroup:LogGroup",
+  "aws:cloudwatch/metricAlarm:MetricAlarm",
+  "aws:costexplorer/anomalyMonitor:AnomalyMonitor",
+  "aws:costexplorer/anomalySubscription:AnomalySubscription",
+  "aws:ec2/eip:Eip",
+  "aws:ec2/flowLog:FlowLog",
+  "aws:ec2/instance:Instance",
+  "aws:ec2/internetGateway:InternetGateway",
+  "aws:ec2/launchTemplate:LaunchTemplate",
+  "aws:ec2/natGateway:NatGateway",
+  "aws:ec2/routeTable:RouteTable",
+  "aws:ec2/securityGroup:SecurityGroup",
+  "aws:ec2/subnet:Subnet",
+  "aws:ec2/vpc:Vpc",
+  "aws:ec2/vpcEndpoint:VpcEndpoint",
+  "aws:ecr/repository:Repository",
+  "aws:ecs/cluster:Cluster",
+  "aws:ecs/service:Service",
+  "aws:ecs/taskDefinition:TaskDefinition",
+  "aws:iam/instanceProfile:InstanceProfile",
+  "aws:iam/openIdConnectProvider:OpenIdConnectProvider",
+  "aws:iam/role:Role",
+  "aws:lambda/function:Function",
+  "aws:lb/listener:Listener",
+  "aws:lb/listenerRule:ListenerRule",
+  "aws:lb/loadBalancer:LoadBalancer",
+  "aws:lb/targetGroup:TargetGroup",
+  "aws:rds/cluster:Cluster",
+  "aws:rds/clusterInstance:ClusterInstance",
+  "aws:rds/instance:Instance",
+  "aws:rds/subnetGroup:SubnetGroup",
+  "aws:route53/resolverEndpoint:ResolverEndpoint",
+  "aws:s3/bucketV2:BucketV2",
+  "aws:scheduler/scheduleGroup:ScheduleGroup",
+  "aws:secretsmanager/secret:Secret",
+  "aws:serverlessrepository/cloudFormationStack:CloudFormationStack",
+  "aws:servicediscovery/privateDnsNamespace:PrivateDnsNamespace",
+  "aws:sns/topic:Topic",
+  "aws:wafv2/ipSet:IpSet",
+  "aws:wafv2/webAcl:WebAcl",
+]);
+
+// Auto Scaling groups take a list of { key, value } instead of a map
+function tagMap(tags: unknown): { [key: string]: string } {
+  if (Array.isArray(tags)) {
+    return Object.fromEntries(tags.map((t: { key: string; value: string }) => [t.key, t.value]));
+  }
+  return (tags as { [key: string]: string } | undefined) ?? {};
+}
+
+// Prod comes from the policy's `environment` config, else the stack name
+// (`prod`, `<app>-prod`). Not from the Environment tag - a prod resource
+// without the tag, or with a tag that is unknown during preview, is still
+// checked.
+function isProd(args: ResourceValidationArgs): boolean {
+  const { environment } = args.getConfig<{ environment?: string }>();
+  if (environment) {
+    return environment === "prod";
+  }
+  // urn:pulumi:<stack>::<project>::<type>::<name>
+  const stack = args.urn.split("::")[0].split(":").pop() ?? "";
+  return stack === "prod" || stack.endsWith("-prod");
+}
+
+function requireDeletionProtection(
+  enabled: boolean | undefined,
+  args: ResourceValidationArgs,
+  reportViolation: ReportViolation
+) {
+  if (isProd(args) && enabled !== true) {
+    reportViolation("Prod databases and load balancers must have deletion protection enabled.");
+  }
+}
+
+export const policies: ResourceValidationPolicy[] = [
+  {
+    name: "storage-encrypted",
+    description: "RDS storage and EBS volumes must be encrypted at rest.",
+    validateResource: [
+      validateResourceOfType(aws.rds.Instance, (db, args, reportViolation) => {
+        if (db.storageEncrypted !== true) {
+          reportViolation("RDS instances must set storageEncrypted: true.");
+        }
+      }),
+      validateResourceOfType(aws.rds.Cluster, (cluster, args, reportViolation) => {
+        // Aurora Serverless v1 is always encrypted; v2 and provisioned are not
+        if (cluster.engineMode !== "serverless" && cluster.storageEncrypted !== true) {
+          reportViolation("RDS clusters must set storageEncrypted: true.");
+        }
+      }),
+      validateResourceOfType(aws.ec2.Instance, (instance, args, reportViolation) => {
+        if (instance.rootBlockDevice?.encrypted !== true) {
+          reportViolation("EC2 instances must set rootBlockDevice.encrypted: true.");
+        }
+        if (instance.ebsBlockDevices?.some((device) => device.encrypted !== true)) {
+          reportViolation("EC2 instance EBS block devices must be encrypted.");
+        }
+      }),
+      validateResourceOfType(aws.ec2.LaunchTemplate, (template, args, reportViolation) => {
+        const unencrypted = (template.blockDeviceMappings ?? []).filter(
+          (mapping) => mapping.ebs && mapping.ebs.encrypted !== "true"
+        );
+        if (unencrypted.length > 0) {
+          reportViolation("Launch template EBS volumes must set encrypted: \"true\".");
+        }
+      }),
+      validateResourceOfType(aws.ebs.Volume, (volume, args, reportViolation) => {
+        if (volume.encrypted !== true) {
+          reportViolation("EBS volumes must set encrypted: true.");
+        }
+      }),
+    ],
+  },
+  {
+    name: "rds-not-public",
+    description: "Databases must not be publicly accessible - reach them over Tailscale.",
+    validateResource: [
+      validateResourceOfType(aws.rds.Instance, (db, args, reportViolation) => {
+        if (db.publiclyAccessible === true) {
+          reportViolation("RDS instances must not set publiclyAccessible: true.");
+        }
+      }),
+      validateResourceOfType(aws.rds.ClusterInstance, (instance, args, reportViolation) => {
+        if (instance.publiclyAccessible === true) {
+          reportViolation("RDS cluster instances must not set publiclyAccessible: true.");
+        }
+      }),
+    ],
+  },
+  {
+    name: "ec2-imdsv2",
+    description: "EC2 instances must require IMDSv2 session tokens.",
+    validateResource: [
+      validateResourceOfType(aws.ec2.Instance, (instance, args, reportViolation) => {
+        if (instance.metadataOptions?.httpTokens !== "required") {
+          reportViolation("EC2 instances must set metadataOptions.httpTokens: \"required\".");
+        }
+      }),
+      validateResourceOfType(aws.ec2.LaunchTemplate, (template, args, reportViolation) => {
+        if (template.metadataOptions?.httpTokens !== "required") {
+          reportViolation("Launch templates must set metadataOptions.httpTokens: \"required\".");
+        }
+      }),
+    ],
+  },
+  {
+    name: "required-tags",
+    description: `Taggable resources must carry the ${requiredTags.join(", ")} tags.`,
+    validateResource: (args, reportViolation) => {
+      if (!taggableTypes.has(args.type)) {
+        return;
+      }
+      const tags = tagMap(args.props.tags);
+      const missing = requiredTags.filter((key) => !tags[key]);
+      if (missing.length > 0) {
+        reportViolation(`Missing required tags: ${missing.join(", ")}.`);
+      }
+    },
+  },
+  {
+    name: "prod-deletion-protection",
+    description: "Databases and load balancers in prod stacks must have deletion protection.",
+    configSchema: {
+      properties: {
+        // Overrides the environment read from the stack name
+        environment: { type: "string" },
+      },
+    },
+    validateResource: [
+      validateResourceOfType(aws.rds.Instance, (db, args, reportViolation) => {
+        requireDeletionProtection(db.deletionProtection, args, reportViolation);
+      }),
+      validateResourceOfType(aws.rds.Cluster, (cluster, args, reportViolation) => {
+        requireDeletionProtection(cluster.deletionProtection, args, reportViolation);
+      }),
+      validateResourceOfType(aws.lb.LoadBalancer, (lb, args, reportViolation) => {
+        requireDeletionProtection(lb.enableDeletionProtection, args, reportViolation);
+      }),
+    ],
+  },
+];
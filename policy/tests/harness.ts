@@ -0,0 +1,84 @@
+import * as pulumi from "@pulumi/pulumi";
+import { ResourceValidationArgs } from "@pulumi/policy";
+import { policies } from "../policies";
+
+// Test harness - resources are declared against Pulumi mocks, and the inputs
+// the engine would send to the analyzer are run through a single policy.
+
+const registered = new Map<string, { type: string; name: string; inputs: Record<string, unknown> }>();
+
+pulumi.runtime.setMocks(
+  {
+    newResource: (args) => {
+      const urn = `urn:pulumi:test::policy-test::${args.type}::${args.name}`;
+      registered.set(urn, { type: args.type, name: args.name, inputs: args.inputs });
+      return { id: `${args.name}-id`, state: args.inputs };
+    },
+    call: (args) => args.inputs,
+  },
+  "policy-test",
+  "test",
+  true
+);
+
+class NotApplicable extends Error {}
+
+// Same check the analyzer makes - generated resource classes carry their type token
+function isTypeOf(type: string, resourceClass: object): boolean {
+  return "__pulumiType" in resourceClass && resourceClass.__pulumiType === type;
+}
+
+// Runs one policy against a mocked resource and returns its violations
+export async function validate(
+  policyName: string,
+  resource: pulumi.CustomResource,
+  config: Record<string, unknown> = {}
+): Promise<string[]> {
+  const policy = policies.find((p) => p.name === policyName);
+  if (!policy) {
+    throw new Error(`No policy named "${policyName}"`);
+  }
+
+  const urn = await new Promise<string>((resolve) => resource.urn.apply(resolve));
+  const entry = registered.get(urn);
+  if (!entry) {
+    throw new Error(`Resource ${urn} was not registered with the mocks`);
+  }
+  const { type, name, inputs } = entry;
+
+  const args: ResourceValidationArgs = {
+    type,
+    name,
+    urn,
+    props: inputs,
+    opts: {
+      protect: false,
+      ignoreChanges: [],
+      aliases: [],
+      customTimeouts: { createSeconds: 0, updateSeconds: 0, deleteSeconds: 0 },
+      additionalSecretOutputs: [],
+    },
+    stackTags: new Map(),
+    isType: (resourceClass: object) => isTypeOf(type, resourceClass),
+    // The engine hands over the raw inputs - the typed view is the caller's
+    asType: <TArgs>(resourceClass: object) =>
+      isTypeOf(type, resourceClass) ? (inputs as pulumi.Unwrap<NonNullable<TArgs>>) : undefined,
+    getConfig: <T extends object>() => config as T,
+    notApplicable: (reason?: string) => {
+      throw new NotApplicable(reason);
+    },
+  };
+
+  const violations: string[] = [];
+  const validators = [policy.validateResource ?? []].flat();
+  for (const validator of validators) {
+    try {
+      await validator(args, (message) => violations.push(message));
+    } catch (e) {
+      if (!(e instanceof NotApplicable)) {
+        throw e;
+      }
+    }
+  }
+  return violations;
+}
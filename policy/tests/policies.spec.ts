@@ -0,0 +1,148 @@
+import * as assert from "assert";
+import * as aws from "@pulumi/aws";
+import { validate } from "./harness";
+
+const tags = { Project: "portfolio", Environment: "dev", App: "platform", ManagedBy: "pulumi" };
+const prodTags = { ...tags, Environment: "prod" };
+
+const db = (name: string, args: Partial<aws.rds.InstanceArgs>) =>
+  new aws.rds.Instance(name, {
+    instanceClass: "db.t4g.micro",
+    engine: "postgres",
+    allocatedStorage: 20,
+    storageEncrypted: true,
+    publiclyAccessible: false,
+    tags,
+    ...args,
+  });
+
+const instance = (name: string, args: Partial<aws.ec2.InstanceArgs>) =>
+  new aws.ec2.Instance(name, {
+    ami: "ami-12345678",
+    instanceType: "t4g.nano",
+    rootBlockDevice: { encrypted: true },
+    metadataOptions: { httpTokens: "required" },
+    tags,
+    ...args,
+  });
+
+describe("storage-encrypted", () => {
+  it("passes encrypted RDS and EBS storage", async () => {
+    assert.deepStrictEqual(await validate("storage-encrypted", db("encrypted-db", {})), []);
+    assert.deepStrictEqual(await validate("storage-encrypted", instance("encrypted-instance", {})), []);
+
+    const template = new aws.ec2.LaunchTemplate("encrypted-template", {
+      blockDeviceMappings: [{ deviceName: "/dev/xvda", ebs: { encrypted: "true" } }],
+      tags,
+    });
+    assert.deepStrictEqual(await validate("storage-encrypted", template), []);
+  });
+
+  it("flags unencrypted RDS and EBS storage", async () => {
+    assert.strictEqual((await validate("storage-encrypted", db("plain-db", { storageEncrypted: false }))).length, 1);
+    assert.strictEqual(
+      (await validate("storage-encrypted", instance("plain-instance", { rootBlockDevice: { encrypted: false } }))).length,
+      1
+    );
+
+    const template = new aws.ec2.LaunchTemplate("plain-template", {
+      blockDeviceMappings: [{ deviceName: "/dev/xvda", ebs: { volumeSize: 8 } }],
+      tags,
+    });
+    assert.strictEqual((await validate("storage-encrypted", template)).length, 1);
+  });
+});
+
+describe("rds-not-public", () => {
+  it("passes private databases", async () => {
+    assert.deepStrictEqual(await validate("rds-not-public", db("private-db", {})), []);
+  });
+
+  it("flags publicly accessible databases", async () => {
+    assert.strictEqual((await validate("rds-not-public", db("public-db", { publiclyAccessible: true }))).length, 1);
+
+    const clusterInstance = new aws.rds.ClusterInstance("public-writer", {
+      clusterIdentifier: "aurora",
+      instanceClass: "db.serverless",
+      engine: "aurora-postgresql",
+      publiclyAccessible: true,
+      tags,
+    });
+    assert.strictEqual((await validate("rds-not-public", clusterInstance)).length, 1);
+  });
+});
+
+describe("ec2-imdsv2", () => {
+  it("passes instances that require IMDSv2", async () => {
+    assert.deepStrictEqual(await validate("ec2-imdsv2", instance("imdsv2-instance", {})), []);
+  });
+
+  it("flags instances and launch templates that allow IMDSv1", async () => {
+    assert.strictEqual(
+      (await validate("ec2-imdsv2", instance("imdsv1-instance", { metadataOptions: { httpTokens: "optional" } }))).length,
+      1
+    );
+
+    const template = new aws.ec2.LaunchTemplate("imdsv1-template", { tags });
+    assert.strictEqual((await validate("ec2-imdsv2", template)).length, 1);
+  });
+});
+
+describe("required-tags", () => {
+  it("passes resources with the canonical tags", async () => {
+    assert.deepStrictEqual(await validate("required-tags", new aws.sns.Topic("tagged-topic", { tags })), []);
+
+    // Auto Scaling groups take tags as a list
+    const group = new aws.autoscaling.Group("tagged-group", {
+      maxSize: 1,
+      minSize: 1,
+      tags: Object.entries(tags).map(([key, value]) => ({ key, value, propagateAtLaunch: true })),
+    });
+    assert.deepStrictEqual(await validate("required-tags", group), []);
+  });
+
+  it("flags resources missing canonical tags", async () => {
+    const topic = new aws.sns.Topic("untagged-topic", { tags: { Project: "portfolio" } });
+    assert.deepStrictEqual(await validate("required-tags", topic), ["Missing required tags: Environment, ManagedBy."]);
+  });
+
+  it("ignores resources that cannot be tagged", async () => {
+    const policy = new aws.iam.RolePolicyAttachment("attachment", {
+      role: "role",
+      policyArn: "arn:aws:iam::aws:policy/ReadOnlyAccess",
+    });
+    assert.deepStrictEqual(await validate("required-tags", policy), []);
+  });
+});
+
+describe("prod-deletion-protection", () => {
+  const prod = { environment: "prod" };
+
+  it("passes protected prod resources and unprotected dev resources", async () => {
+    assert.deepStrictEqual(
+      await validate("prod-deletion-protection", db("protected-db", { tags: prodTags, deletionProtection: true }), prod),
+      []
+    );
+    assert.deepStrictEqual(await validate("prod-deletion-protection", db("dev-db", { deletionProtection: false })), []);
+  });
+
+  it("flags unprotected prod databases and load balancers", async () => {
+    assert.strictEqual(
+      (await validate("prod-deletion-protection", db("unprotected-db", { tags: prodTags }), prod)).length,
+      1
+    );
+
+    const lb = new aws.lb.LoadBalancer("unprotected-alb", { enableDeletionProtection: false, tags: prodTags });
+    assert.strictEqual((await validate("prod-deletion-protection", lb, prod)).length, 1);
+  });
+
+  it("flags prod resources without an Environment tag", async () => {
+    const untagged = db("untagged-prod-db", { tags: { Project: "portfolio" } });
+    assert.strictEqual((await validate("prod-deletion-protection", untagged, prod)).length, 1);
+  });
+
+  it("goes by the stack, not the Environment tag", async () => {
+    // The mocked stack is "test"
+    assert.deepStrictEqual(await validate("prod-deletion-protection", db("prod-tagged-db", { tags: prodTags })), []);
+  });
+});